@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { normalizeCuts } from "./aggregate";
+import { deleteBinPreset, saveBinPreset, useBinPresets } from "./useBinPresets";
+
+type Props = {
+  cuts: number[];
+  onApply: (cuts: number[]) => void;
+  onClose: () => void;
+};
+
+const formatCuts = (cuts: number[]) => cuts.join(", ");
+
+/** 以逗號或空白分隔的分鐘數；任一項不是非負數字時回傳 null。 */
+const parseCuts = (text: string) => {
+  const tokens = text.split(/[\s,，、]+/).filter(Boolean);
+  const values = tokens.map(Number);
+  if (!tokens.length || values.some(value => !Number.isFinite(value) || value < 0)) return null;
+  return normalizeCuts(values);
+};
+
+export default function BinEditor({ cuts, onApply, onClose }: Props) {
+  const presets = useBinPresets();
+  const [text, setText] = useState(() => formatCuts(cuts));
+  const [presetName, setPresetName] = useState("");
+  const parsed = parseCuts(text);
+
+  // 預覽：最後一個切點之後為開放區間
+  const preview = parsed
+    ? [0, ...parsed.filter(value => value > 0)].map((start, index, edges) =>
+        index + 1 < edges.length ? `${start}–${edges[index + 1]}` : `${start} 以上`,
+      )
+    : [];
+
+  return (
+    <>
+      <div
+        className="drawer-overlay active"
+        onClick={onClose}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      />
+      <div className="drawer open" role="dialog" aria-modal="true" aria-labelledby="bin-editor-title">
+        <div className="drawer-header">
+          <h3 id="bin-editor-title">自訂分箱</h3>
+          <button onClick={onClose} className="close-button" aria-label="關閉抽屜">×</button>
+        </div>
+        <div className="drawer-body">
+          <p>輸入區間的切點（分鐘），以逗號分隔，例如 1, 5, 15, 60, 240, 1440。0 會自動補上，最後一個切點之後為開放區間。</p>
+          <div className="source-row">
+            <input
+              className="source-row__input"
+              aria-label="切點"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+            {parsed ? (
+              <p className="source-row__hint">區間（分鐘）：{preview.join("、")}</p>
+            ) : (
+              <p className="card-source__warning">切點需為非負數字</p>
+            )}
+          </div>
+          <div className="actions source-panel__actions">
+            <input
+              className="source-row__input"
+              placeholder="預設組名稱"
+              aria-label="預設組名稱"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <button
+              className="btn"
+              onClick={() => {
+                if (!parsed || !presetName.trim()) return;
+                saveBinPreset({ name: presetName.trim(), cuts: parsed });
+                setPresetName("");
+              }}
+              disabled={!parsed || !presetName.trim()}
+            >
+              儲存為預設組
+            </button>
+          </div>
+          {presets.map(preset => (
+            <div className="source-row" key={preset.name}>
+              <div className="source-row__head">
+                <span className="source-row__label">{preset.name}</span>
+                <span>
+                  <button className="btn btn--link" onClick={() => setText(formatCuts(preset.cuts))}>載入</button>
+                  <button className="btn btn--link" onClick={() => deleteBinPreset(preset.name)}>刪除</button>
+                </span>
+              </div>
+              <p className="source-row__hint">{formatCuts(preset.cuts)}</p>
+            </div>
+          ))}
+          {!presets.length && <p className="source-row__hint">尚未儲存任何預設組，預設組只存在此瀏覽器</p>}
+          <div className="actions source-panel__actions">
+            <button
+              className="btn"
+              onClick={() => {
+                if (!parsed) return;
+                onApply(parsed);
+                onClose();
+              }}
+              disabled={!parsed}
+            >
+              套用
+            </button>
+            <button className="btn" onClick={onClose}>取消</button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { BUNDLED_YEARS, DAY_KIND_LABELS, makeCalendar, parseCalendarOverrides, type CalendarOverride } from "./calendar";
+import { saveCalendarOverrides, useCalendarOverrides } from "./useCalendar";
+
+type Props = {
+  onClose: () => void;
+};
+
+type DraftOverride = { date: string; kind: CalendarOverride["kind"]; name: string };
+
+// 未套用任何覆寫的內建日曆，用來提示該日原本的類型
+const bundled = makeCalendar([]);
+
+export default function CalendarPanel({ onClose }: Props) {
+  const overrides = useCalendarOverrides();
+  const [draft, setDraft] = useState<DraftOverride[]>(() =>
+    overrides.map(item => ({ date: item.date, kind: item.kind, name: item.name ?? "" })),
+  );
+
+  const update = (index: number, patch: Partial<DraftOverride>) => {
+    setDraft(prev => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  // 任一列的日期不完整時無法套用
+  const parsed = (() => {
+    try {
+      return parseCalendarOverrides(draft);
+    } catch {
+      return null;
+    }
+  })();
+
+  const handleSave = () => {
+    if (!parsed) return;
+    saveCalendarOverrides([...parsed].sort((a, b) => a.date.localeCompare(b.date)));
+    onClose();
+  };
+
+  return (
+    <>
+      <div
+        className="drawer-overlay active"
+        onClick={onClose}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      />
+      <div className="drawer open" role="dialog" aria-modal="true" aria-labelledby="calendar-panel-title">
+        <div className="drawer-header">
+          <h3 id="calendar-panel-title">工作日曆設定</h3>
+          <button onClick={onClose} className="close-button" aria-label="關閉抽屜">×</button>
+        </div>
+        <div className="drawer-body">
+          <p>
+            已內建 {BUNDLED_YEARS[0]}–{BUNDLED_YEARS[BUNDLED_YEARS.length - 1]} 年的臺灣國定假日與補班日。
+            其他年份、颱風假或單位自訂的休假與上班日可在此覆寫，覆寫優先於內建資料。設定只存在此瀏覽器。
+          </p>
+          {draft.map((item, index) => {
+            const original = item.date ? bundled(item.date) : null;
+            return (
+              <div className="source-row" key={index}>
+                <div className="source-row__head">
+                  <span className="source-row__label">
+                    {item.date || "未指定日期"}
+                    {original && `（原為${original.name ?? DAY_KIND_LABELS[original.kind]}）`}
+                  </span>
+                  <button className="btn btn--link" onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}>刪除</button>
+                </div>
+                <div className="sla-rule__fields">
+                  <input
+                    className="source-row__input"
+                    type="date"
+                    aria-label="日期"
+                    value={item.date}
+                    onChange={(e) => update(index, { date: e.target.value })}
+                  />
+                  <select
+                    className="select select--compact"
+                    aria-label="類型"
+                    value={item.kind}
+                    onChange={(e) => update(index, { kind: e.target.value as CalendarOverride["kind"] })}
+                  >
+                    <option value="holiday">放假</option>
+                    <option value="workday">上班</option>
+                  </select>
+                  <input
+                    className="source-row__input"
+                    placeholder="名稱（例如颱風假）"
+                    aria-label="名稱"
+                    value={item.name}
+                    onChange={(e) => update(index, { name: e.target.value })}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          {!draft.length && <p className="source-row__hint">尚未設定任何覆寫</p>}
+          <div className="actions source-panel__actions">
+            <button className="btn" onClick={() => setDraft(prev => [...prev, { date: "", kind: "holiday", name: "" }])}>新增日期</button>
+          </div>
+          <div className="actions source-panel__actions">
+            <button className="btn" onClick={handleSave} disabled={!parsed}>套用</button>
+            <button className="btn" onClick={onClose}>取消</button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
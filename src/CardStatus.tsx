@@ -0,0 +1,60 @@
+import type { ReactNode } from "react";
+import dayjs from "dayjs";
+import { DATASET_LABELS, type DatasetKey } from "./sources";
+import type { DatasetStatus } from "./useSheets";
+
+type Props = {
+  status: Record<DatasetKey, DatasetStatus>;
+  // 卡片所依賴的資料集；任一載入失敗且沒有資料時改顯示錯誤面板
+  datasets: DatasetKey[];
+  // KPI 與重點觀察不需要保留圖表高度
+  compact?: boolean;
+  // 資料已載入但第一份彙總尚在計算（Web Worker）
+  computing?: boolean;
+  children: ReactNode;
+};
+
+export default function CardStatus({ status, datasets, compact = false, computing = false, children }: Props) {
+  const relevant = datasets.filter(key => status[key].enabled);
+  const failed = relevant.filter(key => status[key].error);
+  const blocking = failed.filter(key => !status[key].rowCount);
+  const loading = relevant.some(key => status[key].loading);
+
+  if (blocking.length) {
+    return (
+      <div className={`card-error${compact ? " card-error--compact" : ""}`} role="alert">
+        {blocking.map(key => (
+          <div className="card-error__item" key={key}>
+            <div className="card-error__title">{DATASET_LABELS[key]} 載入失敗</div>
+            <div className="card-error__message">{status[key].error}</div>
+            <button className="btn" onClick={status[key].retry} disabled={status[key].refreshing}>
+              {status[key].refreshing ? "重試中…" : "重試"}
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (loading || computing) {
+    return (
+      <div className={`card-loading${compact ? " card-loading--compact" : ""}`} role="status">
+        <span className="card-loading__spinner" aria-hidden="true" />
+        {loading ? "載入中…" : "計算中…"}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {children}
+      {/* 精簡模式位於格線中，更新失敗的提示交給工具列的快取標籤 */}
+      {!compact && failed.map(key => (
+        <div className="card-warning" key={key}>
+          {DATASET_LABELS[key]} 更新失敗，顯示 {status[key].lastSuccess != null ? dayjs(status[key].lastSuccess).format("MM-DD HH:mm") : "先前"} 的資料
+          <button className="btn btn--link" onClick={status[key].retry} disabled={status[key].refreshing}>重試</button>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+import { COMPARE_LABELS, type CompareSelection, type DateRange } from "./dateRange";
+
+type Props = {
+  value: CompareSelection | null;
+  // 目前期間，自訂基準的初始值以此往前推
+  range: DateRange;
+  // 換算後的基準期間；null 表示目前期間無法比較
+  baseline: DateRange | null;
+  onChange: (value: CompareSelection | null) => void;
+};
+
+const KINDS = Object.keys(COMPARE_LABELS) as Array<CompareSelection["kind"]>;
+
+export default function ComparePicker({ value, range, baseline, onChange }: Props) {
+  const changeKind = (next: string) => {
+    if (!next) onChange(null);
+    else if (next === "custom") {
+      // 自訂基準從目前採用的基準期間開始調整
+      onChange({ kind: "custom", start: baseline?.start ?? range.start ?? "", end: baseline?.end ?? range.end ?? "" });
+    } else onChange({ kind: next as "previous" | "lastYear" });
+  };
+
+  return (
+    <div className="range-picker">
+      <div className="tool-actions">
+        <label className="label">比較</label>
+        <select className="select" value={value?.kind ?? ""} onChange={e => changeKind(e.target.value)}>
+          <option value="">不比較</option>
+          {KINDS.map(kind => <option key={kind} value={kind}>{COMPARE_LABELS[kind]}</option>)}
+        </select>
+      </div>
+      {value?.kind === "custom" && (
+        <div className="tool-actions">
+          <input
+            className="select"
+            type="date"
+            aria-label="比較開始日期"
+            value={value.start}
+            max={value.end || undefined}
+            onChange={e => onChange({ ...value, start: e.target.value })}
+          />
+          <span className="label">至</span>
+          <input
+            className="select"
+            type="date"
+            aria-label="比較結束日期"
+            value={value.end}
+            min={value.start || undefined}
+            onChange={e => onChange({ ...value, end: e.target.value })}
+          />
+        </div>
+      )}
+      {value && value.kind !== "custom" && (
+        <span className="label">{baseline ? `${baseline.start} ~ ${baseline.end}` : "全部期間無法比較"}</span>
+      )}
+    </div>
+  );
+}
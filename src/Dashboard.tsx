@@ -1,43 +1,88 @@
 import { useEffect, useMemo, useRef, useState, type ReactNode, type CSSProperties } from "react";
 import { useSheets } from "./useSheets";
+import DataSourcePanel from "./DataSourcePanel";
+import DataQualityPanel from "./DataQualityPanel";
+import FileImport from "./FileImport";
+import RangePicker from "./RangePicker";
+import ComparePicker from "./ComparePicker";
+import MultiSelect from "./MultiSelect";
+import { toggleFavorite, useFavorites } from "./favorites";
+import CardStatus from "./CardStatus";
+import SlaPanel from "./SlaPanel";
+import { useSlaRules } from "./useSlaRules";
+import CalendarPanel from "./CalendarPanel";
+import BinEditor from "./BinEditor";
+import DrilldownTable, { type DrilldownColumn } from "./DrilldownTable";
+import StaffingCard from "./StaffingCard";
+import DurationTrendCard from "./DurationTrendCard";
+import ModuleRankingCard from "./ModuleRankingCard";
+import { rankModules } from "./moduleRanking";
+import HourHeatmap from "./HourHeatmap";
+import { useWorkCalendar } from "./useCalendar";
+import { WEEKDAY_LABELS, WEEKDAY_ORDER, countWorkingDays } from "./calendar";
+import { SENSITIVITY_LABELS, detectAnomalies, type AnomalySensitivity } from "./anomaly";
+import { FORECAST_OPTIONS, backtest, forecastDaily } from "./forecast";
+import { useCallsView } from "./useCallsView";
+import {
+  CATEGORY_COLOR_PALETTE, EMPTY_CROSS_FILTER, buildCategoryTrendStack, categoryColor, computeCallsView, hasCrossFilter, hourOf,
+  DURATION_BASELINE_KEY, DURATION_PERCENTILES,
+  type CallsViewParams, type CrossFilter, type DurationChartRow, type DurationStatRow, type DurationGroupBy, type DurationParams,
+} from "./aggregate";
+import { DEFAULT_DURATION, useViewState, type DrawerRef, type DurationTrendParams, type DurationView, type HeatmapMetric, type ModuleRankParams } from "./viewState";
+import { DATASET_KEYS, DATASET_LABELS } from "./sources";
+import { monthKey, type CallRow, type TrendRow } from "./schema";
+import { download, downloadCsv, downloadPng, toCsv } from "./download";
+import { formatNumber } from "./format";
+import { reconcileCategoryTrend } from "./quality";
+import {
+  COMPARE_LABELS, compareRange, inRange, monthOverlaps, resolveRange,
+  type CompareSelection, type DateRange, type RangeSelection,
+} from "./dateRange";
 import dayjs from "dayjs";
-import html2canvas from "html2canvas";
 import {
-  LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer,
-  BarChart, Bar, Legend, AreaChart, Area, ReferenceLine
+  ComposedChart, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer,
+  BarChart, Bar, Cell, Legend, AreaChart, Area, ReferenceLine
 } from "recharts";
 import "./Dashboard.css";
 
-type TrendRow = { date: string; count: number; ma7?: number | null; ma30?: number | null };
-type TopRow   = { name: string; value: number };
-type DurationMetric = "count" | "percentage";
-type DurationBinMode = "auto" | "fixed";
-type DurationGroupBy = "none" | "category" | "module";
-
-type DurationDrawerState =
-  | { type: "module"; name: string }
-  | {
-      type: "duration";
-      label: string;
-      groupLabel: string | null;
-      min: number;
-      max: number | null;
-      rows: Array<Record<string, any>>;
-    };
-
-type DurationRow = {
-  minutes: number;
-  category: string;
-  module: string;
-  source: Record<string, any>;
+// baseline 為比較期間中相同天數位移的件數
+type TrendPoint = TrendRow & {
+  ma7?: number | null;
+  ma30?: number | null;
+  baselineDate?: string | null;
+  baseline?: number | null;
+  // 異常日的件數，其餘為 null（只在圖上畫點）
+  anomaly?: number | null;
 };
-
-const numberFormatter = new Intl.NumberFormat("zh-Hant");
-
-const formatNumber = (value: number | null | undefined) => {
-  if (value == null || Number.isNaN(value)) return "-";
-  return numberFormatter.format(value);
+// 預測的日期沒有實際件數
+type TrendChartRow = Partial<TrendPoint> & {
+  date: string;
+  forecast?: number | null;
+  forecastBand?: [number, number] | null;
+  // 國定假日以整欄淡色底標示（對應隱藏的 0～1 座標軸）
+  holiday?: number | null;
+  holidayName?: string | null;
 };
+type Change = { current: number; baseline: number };
+
+const MAKEUP_BAR = "補班日";
+const HOLIDAY_BAR = "國定假日";
+const DURATION_VIEW_LABELS: Record<DurationView, string> = { histogram: "分佈", cdf: "累積", box: "箱形圖" };
+// 開啟聚焦時的預設範圍（分）
+const DEFAULT_DURATION_FOCUS = { min: 0, max: 30 };
+
+// 抽屜明細表的欄位；模組抽屜已限定單一模組，不列模組欄
+const CALL_COLUMNS: DrilldownColumn<CallRow>[] = [
+  { label: "時間", value: r => r.callTime },
+  { label: "分類", value: r => r.category },
+  { label: "模組", value: r => r.module },
+  { label: "處理時間(分)", value: r => r.resolveMinute ?? "" },
+];
+const MODULE_CALL_COLUMNS = CALL_COLUMNS.filter(column => column.label !== "模組");
+const SLA_BREACH_COLUMNS: DrilldownColumn<CallRow & { target: number }>[] = [
+  ...CALL_COLUMNS,
+  { label: "時限(分)", value: r => r.target },
+];
 
 const formatPercent = (value: number | null | undefined, digits = 1) => {
   if (value == null || Number.isNaN(value)) return "-";
@@ -46,23 +91,8 @@ const formatPercent = (value: number | null | undefined, digits = 1) => {
   return `${prefix}${fixed}%`;
 };
 
-const toCsv = (rows: any[]) => {
-  if (!rows?.length) return "";
-  const headers = Object.keys(rows[0]);
-  const lines = [headers.join(","), ...rows.map(r => headers.map(h => JSON.stringify(r[h] ?? "")).join(","))];
-  return "\uFEFF" + lines.join("\n");
-};
-const download = (name: string, blob: Blob) => {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a"); a.href = url; a.download = name; a.click();
-  URL.revokeObjectURL(url);
-};
-const monthKey = (iso: string) => {
-  const d = dayjs(iso); return d.isValid() ? d.format("YYYY-MM") : String(iso).slice(0, 7);
-};
-const yearFromMonth = (month: string) => month.slice(0, 4);
-const movingAvg = (data: TrendRow[], key: keyof TrendRow, win: number) => {
-  let sum = 0; const out: TrendRow[] = [];
+const movingAvg = (data: TrendPoint[], key: keyof TrendPoint, win: number) => {
+  let sum = 0; const out: TrendPoint[] = [];
   for (let i = 0; i < data.length; i++) {
     sum += Number(data[i][key] ?? 0);
     if (i >= win) sum -= Number(data[i - win][key] ?? 0);
@@ -71,44 +101,80 @@ const movingAvg = (data: TrendRow[], key: keyof TrendRow, win: number) => {
   return out;
 };
 
-const CATEGORY_COLOR_PALETTE = ["#0ea5e9", "#22c55e", "#f97316", "#8b5cf6", "#f43f5e", "#14b8a6"];
-const DURATION_OTHERS_KEY = "其他";
-
-const FIXED_DURATION_BINS = [
-  { min: 0, max: 3 },
-  { min: 3, max: 5 },
-  { min: 5, max: 10 },
-  { min: 10, max: 15 },
-  { min: 15, max: 20 },
-  { min: 20, max: 30 },
-  { min: 30, max: 45 },
-  { min: 45, max: 60 },
-  { min: 60, max: 90 },
-  { min: 90, max: 120 },
-  { min: 120, max: 180 },
-  { min: 180, max: null },
-];
-
-const formatDurationLabel = (min: number, max: number | null) => {
-  if (max == null) return `${Math.round(min)}+ 分`;
-  const roundedMin = Math.round(min);
-  const roundedMax = Math.round(max);
-  if (roundedMin === roundedMax) return `${roundedMin} 分`;
-  return `${roundedMin}-${roundedMax} 分`;
-};
+// worker 尚未回傳第一份結果前使用的空白彙總
+const EMPTY_CALLS_VIEW = computeCallsView([], {
+  filter: { start: null, end: null, daily: false },
+  cross: EMPTY_CROSS_FILTER,
+  compare: null,
+  sla: [],
+  duration: DEFAULT_DURATION,
+  trendGroupBy: "none",
+});
 
 export default function Dashboard() {
-  const { trend, moduleByMonth, avgCallDuration, calls, loading } = useSheets();
-  const [drawerState, setDrawerState] = useState<DurationDrawerState | null>(null);
-  const [year, setYear] = useState<string>("ALL");
-  const [month, setMonth] = useState<string>("ALL");
-  const [durationMetric, setDurationMetric] = useState<DurationMetric>("count");
-  const [durationBinMode, setDurationBinMode] = useState<DurationBinMode>("auto");
-  const [durationFocus30, setDurationFocus30] = useState<boolean>(false);
-  const [durationGroupBy, setDurationGroupBy] = useState<DurationGroupBy>("none");
-  const [durationGroupSelection, setDurationGroupSelection] = useState<string>("ALL");
-  const [durationFacetEnabled, setDurationFacetEnabled] = useState<boolean>(false);
-  const isYearAll = year === "ALL";
+  // 各資料集已由 schema 轉成型別化的列；趨勢依日期、平均時長依月份排序
+  const { trend: trendAll, moduleByMonth, avgCallDuration: avgDurationSheet, calls, categoryTrend, parsed, status, changes, dismissChanges, loading } = useSheets();
+  // 期間、分佈圖設定與開啟中的抽屜都放在網址，可分享並支援上一頁 / 下一頁
+  const [view, updateView] = useViewState();
+  const {
+    range: rangeSelection,
+    compare,
+    duration: durationParams,
+    durationView,
+    filters: crossFilter,
+    anomaly: anomalySensitivity,
+    forecast: forecastDays,
+    heatmap: heatmapMetric,
+    durationTrend: durationTrendParams,
+    moduleRank: moduleRankParams,
+    drawer: drawerState,
+  } = view;
+  const {
+    metric: durationMetric,
+    binMode: durationBinMode,
+    cuts: durationCuts,
+    focus: durationFocus,
+    groupBy: durationGroupBy,
+    facet: durationFacetEnabled,
+  } = durationParams;
+  const setRangeSelection = (range: RangeSelection) => updateView(prev => ({ ...prev, range }));
+  const setCompare = (next: CompareSelection | null) => updateView(prev => ({ ...prev, compare: next }));
+  const setAnomalySensitivity = (anomaly: AnomalySensitivity) => updateView(prev => ({ ...prev, anomaly }));
+  const setForecastDays = (forecast: number) => updateView(prev => ({ ...prev, forecast }));
+  const setHeatmapMetric = (heatmap: HeatmapMetric) => updateView(prev => ({ ...prev, heatmap }));
+  const setDuration = (patch: Partial<DurationParams>) => {
+    updateView(prev => ({ ...prev, duration: { ...prev.duration, ...patch } }));
+  };
+  const setDurationTrend = (patch: Partial<DurationTrendParams>) => {
+    updateView(prev => ({ ...prev, durationTrend: { ...prev.durationTrend, ...patch } }));
+  };
+  const setModuleRank = (patch: Partial<ModuleRankParams>) => {
+    updateView(prev => ({ ...prev, moduleRank: { ...prev.moduleRank, ...patch } }));
+  };
+  const setDrawerState = (drawer: DrawerRef | null) => updateView(prev => ({ ...prev, drawer }));
+  const setDurationView = (next: DurationView) => updateView(prev => ({ ...prev, durationView: next }));
+  // 點選圖表切換交叉篩選；同一項目再點一次即取消
+  const toggleCrossFilter = <K extends keyof CrossFilter>(key: K, value: CrossFilter[K][number]) => {
+    updateView(prev => {
+      const list = prev.filters[key] as Array<CrossFilter[K][number]>;
+      const next = list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+      return { ...prev, filters: { ...prev.filters, [key]: next } };
+    });
+  };
+  const setCrossValues = (key: "modules" | "categories", values: string[]) => {
+    updateView(prev => ({ ...prev, filters: { ...prev.filters, [key]: values } }));
+  };
+  const favorites = useFavorites();
+  const clearCrossFilter = () => updateView(prev => ({ ...prev, filters: EMPTY_CROSS_FILTER }));
+  const crossActive = hasCrossFilter(crossFilter);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const [sourcePanelOpen, setSourcePanelOpen] = useState<boolean>(false);
+  const [qualityPanelOpen, setQualityPanelOpen] = useState<boolean>(false);
+  const [slaPanelOpen, setSlaPanelOpen] = useState<boolean>(false);
+  const slaRules = useSlaRules();
+  const [calendarPanelOpen, setCalendarPanelOpen] = useState<boolean>(false);
+  const [binEditorOpen, setBinEditorOpen] = useState<boolean>(false);
+  const calendar = useWorkCalendar();
   const toggleActiveStyle: CSSProperties = {
     fontWeight: 600,
     borderColor: "#2563eb",
@@ -116,91 +182,139 @@ export default function Dashboard() {
     backgroundColor: "rgba(37, 99, 235, 0.08)",
   };
 
-  // 趨勢資料（含移動平均）
-  const trendAll: TrendRow[] = useMemo(() => {
-    return (trend ?? [])
-      .map(r => {
-        const rawDate = r["日期"] ?? r["date"] ?? r["Date"];
-        const date = dayjs(rawDate).isValid() ? dayjs(rawDate).format("YYYY-MM-DD") : String(rawDate ?? "");
-        return {
-          date,
-          count: Number(r["件數"] ?? r["count"] ?? 0),
-        };
-      })
-      .filter(r => r.date)
-      .sort((a, b) => a.date.localeCompare(b.date));
-  }, [trend]);
-
-  const monthsByYear = useMemo(() => {
-    const map = new Map<string, string[]>();
-    for (const row of trendAll) {
-      const mk = monthKey(row.date);
-      if (!mk || mk.length < 7) continue;
-      const yr = yearFromMonth(mk);
-      if (!map.has(yr)) map.set(yr, []);
-      const list = map.get(yr)!;
-      if (!list.includes(mk)) list.push(mk);
-    }
-    for (const list of map.values()) {
-      list.sort();
-    }
-    return map;
-  }, [trendAll]);
-
-  const years = useMemo(() => {
-    return Array.from(monthsByYear.keys()).sort();
-  }, [monthsByYear]);
-
-  const months = useMemo(() => {
-    if (year === "ALL") return [];
-    return monthsByYear.get(year) ?? [];
-  }, [year, monthsByYear]);
-
-  const avgDurationRows = useMemo(() => {
-    const rows: Array<{ month: string; year: string; value: number }> = [];
-    for (const r of avgCallDuration ?? []) {
-      const rawMonth = (r as any)["month"] ?? (r as any)["月份"] ?? (r as any)["Month"];
-      const mk = monthKey(String(rawMonth ?? ""));
-      if (!mk || mk.length < 7) continue;
-      const rawDuration =
-        (r as any)["avg_call_duration"] ??
-        (r as any)["平均處理時長"] ??
-        (r as any)["平均處理時長(分)"] ??
-        (r as any)["AvgCallDuration"] ??
-        (r as any)["avg"];
-      if (rawDuration === "" || rawDuration === undefined || rawDuration === null) continue;
-      const duration = Number(rawDuration);
-      if (!Number.isFinite(duration)) continue;
-      rows.push({ month: mk, year: yearFromMonth(mk), value: duration });
-    }
-    return rows.sort((a, b) => a.month.localeCompare(b.month));
-  }, [avgCallDuration]);
-
-  useEffect(() => {
-    if (year === "ALL") {
-      if (month !== "ALL") setMonth("ALL");
-      return;
-    }
-    const list = monthsByYear.get(year) ?? [];
-    if (month !== "ALL" && !list.includes(month)) {
-      setMonth("ALL");
-    }
-  }, [year, month, monthsByYear]);
+  const trendDates = useMemo(() => trendAll.map(row => row.date), [trendAll]);
+  // 相對區間（最近 N 天、本季…）以資料最新日期為基準，資料有延遲時仍涵蓋完整天數
+  const anchorDate = trendDates.length ? trendDates[trendDates.length - 1] : dayjs().format("YYYY-MM-DD");
+  const dateRange = useMemo(() => resolveRange(rangeSelection, anchorDate), [rangeSelection, anchorDate]);
+  const dataStart = trendDates[0] ?? anchorDate;
+  // 期間以資料的起訖日為界，未開放區間（全部）取整段資料
+  const clampSpan = useMemo(() => {
+    return (start: string | null, end: string | null) => ({
+      start: start && start > dataStart ? start : dataStart,
+      end: end && end < anchorDate ? end : anchorDate,
+    });
+  }, [dataStart, anchorDate]);
+  const isAllRange = rangeSelection.kind === "all";
+  const baselineRange = useMemo(
+    () => (compare ? compareRange(compare, dateRange, anchorDate) : null),
+    [compare, dateRange, anchorDate],
+  );
+  const compareLabel = compare && baselineRange ? COMPARE_LABELS[compare.kind] : null;
+  const selectedMonth = rangeSelection.kind === "month" ? rangeSelection.month : null;
+
+  // 案件明細的篩選與彙總在 Web Worker 中計算；參數變動時先沿用上一份結果
+  const callsViewParams: CallsViewParams = {
+    filter: { start: dateRange.start, end: dateRange.end, daily: dateRange.daily },
+    cross: crossFilter,
+    compare: baselineRange,
+    sla: slaRules,
+    duration: durationParams,
+    trendGroupBy: durationTrendParams.groupBy,
+  };
+  const { view: callsView, viewCalls, pending: callsViewPending } = useCallsView(calls, callsViewParams);
+  const {
+    categoryOptions,
+    moduleOptions,
+    durationChart,
+    durationStats,
+    durationTrend,
+    categoryStack,
+  } = callsView ?? EMPTY_CALLS_VIEW;
+  // 尚未取得任何結果時顯示載入中，之後的重算只在卡片標題旁顯示轉圈
+  const callsViewLoading = !callsView && calls.length > 0;
+
+  // 交叉篩選時趨勢與月彙總改用明細計算的子集合；worker 尚未回傳時先沿用原資料
+  const subset = crossActive ? callsView?.subset ?? null : null;
+  const moduleRows = subset?.moduleByMonth ?? moduleByMonth;
+  const avgDurationRows = subset?.avgDuration ?? avgDurationSheet;
+  // 依模組、分類篩選後的每日件數；星期篩選另外套用，週期節奏圖才能繼續列出每一天
+  const groupTrend = subset?.trend ?? trendAll;
+  const trendBase = useMemo(() => {
+    if (!crossFilter.weekdays.length) return groupTrend;
+    return groupTrend.filter(row => crossFilter.weekdays.includes(dayjs(row.date).day()));
+  }, [groupTrend, crossFilter.weekdays]);
+
+  const groupTrendInRange = useMemo(() => {
+    if (isAllRange) return groupTrend;
+    return groupTrend.filter(r => inRange(r.date, dateRange));
+  }, [groupTrend, isAllRange, dateRange]);
 
   const filteredTrend = useMemo(() => {
-    if (year === "ALL" && month === "ALL") return trendAll;
-    return trendAll.filter(r => {
-      const mk = monthKey(r.date);
-      if (!mk || mk.length < 7) return false;
-      if (year !== "ALL" && yearFromMonth(mk) !== year) return false;
-      if (month !== "ALL" && mk !== month) return false;
-      return true;
+    if (isAllRange) return trendBase;
+    return trendBase.filter(r => inRange(r.date, dateRange));
+  }, [trendBase, isAllRange, dateRange]);
+
+  // 比較期間的每日件數，依與期間起日的天數位移對齊到本期
+  const baselineTrend = useMemo(() => {
+    if (!baselineRange) return null;
+    return trendBase.filter(r => inRange(r.date, baselineRange));
+  }, [trendBase, baselineRange]);
+
+  // 異常偵測用完整歷史當基準，只列出目前期間內的異常日
+  const anomalies = useMemo(() => {
+    return detectAnomalies(trendBase, anomalySensitivity, calendar).filter(item => inRange(item.date, dateRange));
+  }, [trendBase, anomalySensitivity, calendar, dateRange]);
+  const anomalyByDate = useMemo(() => new Map(anomalies.map(item => [item.date, item])), [anomalies]);
+
+  const trendRows: TrendPoint[] = useMemo(() => {
+    const rows = movingAvg(movingAvg(filteredTrend, "count", 7), "count", 30)
+      .map(row => ({ ...row, anomaly: anomalyByDate.has(row.date) ? row.count : null }));
+    const origin = dateRange.start ?? filteredTrend[0]?.date;
+    if (!baselineRange?.start || !baselineTrend || !origin) return rows;
+    const counts = new Map(baselineTrend.map(r => [r.date, r.count]));
+    return rows.map(row => {
+      const date = dayjs(baselineRange.start).add(dayjs(row.date).diff(origin, "day"), "day").format("YYYY-MM-DD");
+      const inBaseline = inRange(date, baselineRange);
+      return { ...row, baselineDate: inBaseline ? date : null, baseline: inBaseline ? counts.get(date) ?? null : null };
     });
-  }, [trendAll, year, month]);
-
-  const trendRows: TrendRow[] = useMemo(() => {
-    return movingAvg(movingAvg(filteredTrend, "count", 7), "count", 30);
-  }, [filteredTrend]);
+  }, [filteredTrend, anomalyByDate, dateRange.start, baselineRange, baselineTrend]);
+
+  // 預測接在資料最新日期之後，期間已結束（例如選了過去的月份）時不顯示
+  const forecastActive = forecastDays > 0 && (!dateRange.end || dateRange.end >= anchorDate);
+  const forecastMonth = anchorDate.slice(0, 7);
+  // 依模組、分類篩選後的序列預測（星期篩選會讓序列不連續），畫圖時再套用星期篩選
+  const forecastPoints = useMemo(() => {
+    if (!forecastActive) return [];
+    // 至少預測到本月底，才能算出本月預估
+    const toMonthEnd = dayjs(anchorDate).endOf("month").diff(anchorDate, "day");
+    return forecastDaily(groupTrend, Math.max(forecastDays, toMonthEnd))
+      .filter(point => !crossFilter.weekdays.length || crossFilter.weekdays.includes(dayjs(point.date).day()));
+  }, [forecastActive, forecastDays, groupTrend, anchorDate, crossFilter.weekdays]);
+  const forecastBacktest = useMemo(() => (forecastActive ? backtest(groupTrend) : null), [forecastActive, groupTrend]);
+
+  const trendChartRows: TrendChartRow[] = useMemo(() => {
+    const markHolidays = (rows: TrendChartRow[]) =>
+      rows.map(row => {
+        const day = calendar(row.date);
+        return day.kind === "holiday" ? { ...row, holiday: 1, holidayName: day.name } : row;
+      });
+    if (!forecastPoints.length) return markHolidays(trendRows);
+    const horizonEnd = dayjs(anchorDate).add(forecastDays, "day").format("YYYY-MM-DD");
+    const future = forecastPoints
+      .filter(point => point.date <= horizonEnd)
+      .map(point => ({
+        date: point.date,
+        forecast: +point.value.toFixed(1),
+        forecastBand: [+point.lower.toFixed(1), +point.upper.toFixed(1)] as [number, number],
+      }));
+    // 最後一筆實際值同時作為預測線的起點，兩條線才會接起來
+    const rows: TrendChartRow[] = trendRows.map((row, index) =>
+      index === trendRows.length - 1 ? { ...row, forecast: row.count, forecastBand: [row.count, row.count] } : row,
+    );
+    return markHolidays([...rows, ...future]);
+  }, [trendRows, forecastPoints, forecastDays, anchorDate, calendar]);
+
+  const hasHolidays = trendChartRows.some(row => row.holiday);
+
+  // 本月預估：已發生的件數加上本月剩餘天數的預測
+  const monthForecast = useMemo(() => {
+    if (!forecastPoints.length) return null;
+    const actual = trendBase.filter(row => row.date.startsWith(forecastMonth)).reduce((sum, row) => sum + (row.count || 0), 0);
+    const rest = forecastPoints.filter(point => point.date.startsWith(forecastMonth));
+    const predicted = rest.reduce((sum, point) => sum + point.value, 0);
+    const margin = 1.96 * Math.sqrt(rest.reduce((sum, point) => sum + point.sd * point.sd, 0));
+    return { actual, predicted, total: actual + predicted, lower: Math.max(0, actual + predicted - margin), upper: actual + predicted + margin };
+  }, [forecastPoints, trendBase, forecastMonth]);
 
   const monthlyTotals = useMemo(() => {
     const map = new Map<string, {
@@ -211,7 +325,7 @@ export default function Dashboard() {
       min?: TrendRow;
     }>();
 
-    for (const row of trendAll) {
+    for (const row of trendBase) {
       const key = monthKey(row.date);
       if (!map.has(key)) {
         map.set(key, { month: key, total: 0, days: 0, max: row, min: row });
@@ -224,18 +338,18 @@ export default function Dashboard() {
     }
 
     return Array.from(map.values()).sort((a, b) => a.month.localeCompare(b.month));
-  }, [trendAll]);
+  }, [trendBase]);
 
   const filteredMonthlyTotals = useMemo(() => {
-    if (year === "ALL") return monthlyTotals;
-    return monthlyTotals.filter(m => yearFromMonth(m.month) === year);
-  }, [monthlyTotals, year]);
+    if (isAllRange) return monthlyTotals;
+    return monthlyTotals.filter(m => monthOverlaps(m.month, dateRange));
+  }, [monthlyTotals, isAllRange, dateRange]);
 
   const selectedMonthKey = useMemo(() => {
-    if (month !== "ALL") return month;
+    if (selectedMonth) return selectedMonth;
     if (filteredMonthlyTotals.length) return filteredMonthlyTotals[filteredMonthlyTotals.length - 1].month;
     return monthlyTotals.length ? monthlyTotals[monthlyTotals.length - 1].month : null;
-  }, [month, filteredMonthlyTotals, monthlyTotals]);
+  }, [selectedMonth, filteredMonthlyTotals, monthlyTotals]);
 
   const selectedMonthly = useMemo(() => {
     if (!selectedMonthKey) return null;
@@ -244,11 +358,11 @@ export default function Dashboard() {
 
   const previousMonthly = useMemo(() => {
     if (!selectedMonthKey) return null;
-    const baseList = year === "ALL" && month === "ALL" ? monthlyTotals : filteredMonthlyTotals;
-    const idx = baseList.findIndex(m => m.month === selectedMonthKey);
-    if (idx <= 0) return null;
-    return baseList[idx - 1];
-  }, [monthlyTotals, filteredMonthlyTotals, selectedMonthKey, year, month]);
+    const base = dayjs(`${selectedMonthKey}-01`);
+    if (!base.isValid()) return null;
+    const previousKey = base.subtract(1, "month").format("YYYY-MM");
+    return monthlyTotals.find(m => m.month === previousKey) ?? null;
+  }, [monthlyTotals, selectedMonthKey]);
 
   const yoyMonthly = useMemo(() => {
     if (!selectedMonthKey) return null;
@@ -263,36 +377,35 @@ export default function Dashboard() {
     return filteredTrend.reduce((sum, r) => sum + (r.count || 0), 0);
   }, [filteredTrend]);
 
-  const averageDailyCount = useMemo(() => {
+  // 每工作日平均：工作日的件數除以期間內的工作日數（沒有進件的工作日也計入），假日與週末的件數不列入
+  const workdayAverage = useMemo(() => {
+    return (rows: TrendRow[], start: string | null, end: string | null) => {
+      const span = clampSpan(start, end);
+      const days = countWorkingDays(calendar, span.start, span.end, crossFilter.weekdays);
+      if (!days) return null;
+      const total = rows.reduce((sum, row) => (calendar(row.date).working ? sum + (row.count || 0) : sum), 0);
+      return { value: total / days, days };
+    };
+  }, [calendar, clampSpan, crossFilter.weekdays]);
+
+  const workdayStat = useMemo(() => {
     if (!filteredTrend.length) return null;
-    return +(monthTotalCount / filteredTrend.length).toFixed(1);
-  }, [filteredTrend, monthTotalCount]);
+    return workdayAverage(filteredTrend, dateRange.start, dateRange.end);
+  }, [filteredTrend, workdayAverage, dateRange]);
+  const averageDailyCount = workdayStat ? +workdayStat.value.toFixed(1) : null;
 
   const averageDailyDetail = useMemo(() => {
-    if (!filteredTrend.length) return null;
-    if (month !== "ALL") {
-      const d = dayjs(`${month}-01`);
-      const prefix = d.isValid() ? d.format("YYYY 年 MM 月") : month;
-      return `${prefix}平均（${filteredTrend.length} 日）`;
-    }
-    if (year !== "ALL") {
-      return `${year} 年平均（${filteredTrend.length} 日）`;
-    }
-    return `全部年份平均（${filteredTrend.length} 日）`;
-  }, [filteredTrend, month, year]);
+    if (!workdayStat) return null;
+    if (isAllRange) return `全部年份平均（${workdayStat.days} 個工作日）`;
+    return `${dateRange.label}平均（${workdayStat.days} 個工作日）`;
+  }, [workdayStat, isAllRange, dateRange]);
 
   const avgDurationStat = useMemo(() => {
-    if (!avgDurationRows.length) return { value: null as number | null, detail: null as string | null };
+    if (!avgDurationRows.length) return { value: null as number | null, detail: null as string | null, baseline: null as number | null };
 
     const durationByMonth = new Map<string, number>();
-    const monthsByYearFromDuration = new Map<string, string[]>();
     for (const item of avgDurationRows) {
       durationByMonth.set(item.month, item.value);
-      if (!monthsByYearFromDuration.has(item.year)) monthsByYearFromDuration.set(item.year, []);
-      monthsByYearFromDuration.get(item.year)!.push(item.month);
-    }
-    for (const months of monthsByYearFromDuration.values()) {
-      months.sort();
     }
 
     const weightByMonth = new Map<string, number>();
@@ -324,25 +437,34 @@ export default function Dashboard() {
       return { value: plainSum / count, months: count, weighted: false };
     };
 
-    if (month !== "ALL") {
-      const value = durationByMonth.get(month);
+    // 比較期間同樣以涵蓋的月份計算
+    const baseline = baselineRange
+      ? computeAverage(avgDurationRows.map(item => item.month).filter(mk => monthOverlaps(mk, baselineRange)))?.value ?? null
+      : null;
+
+    if (selectedMonth) {
+      const value = durationByMonth.get(selectedMonth);
       if (value != null) {
-        const d = dayjs(`${month}-01`);
+        const d = dayjs(`${selectedMonth}-01`);
         return {
           value,
-          detail: d.isValid() ? d.format("YYYY 年 MM 月 平均") : `${month} 平均`,
+          detail: d.isValid() ? d.format("YYYY 年 MM 月 平均") : `${selectedMonth} 平均`,
+          baseline,
         };
       }
     }
 
-    if (year !== "ALL") {
-      const months = monthsByYearFromDuration.get(year) ?? [];
+    if (!isAllRange) {
+      // 平均處理時長是月資料：區間未對齊整月時，以有交集的月份計算
+      const months = avgDurationRows.map(item => item.month).filter(mk => monthOverlaps(mk, dateRange));
       const result = computeAverage(months);
       if (result?.value != null) {
         const suffix = result.weighted ? "，依案件量加權" : "";
+        const partial = dateRange.monthAligned ? "" : "，以涵蓋月份計";
         return {
           value: result.value,
-          detail: `${year} 年平均（${result.months} 月${suffix}）`,
+          detail: `${dateRange.label}平均（${result.months} 月${suffix}${partial}）`,
+          baseline,
         };
       }
     }
@@ -354,251 +476,93 @@ export default function Dashboard() {
       return {
         value: overall.value,
         detail: `全部年份平均（${overall.months} 月${suffix}）`,
+        baseline,
       };
     }
 
-    return { value: null, detail: null };
-  }, [avgDurationRows, month, year, monthlyTotals]);
-
-  const totalLabel = useMemo(() => {
-    if (month !== "ALL") return "本月總件數";
-    if (year !== "ALL") return `${year} 年總件數`;
-    return "全部總件數";
-  }, [year, month]);
+    return { value: null, detail: null, baseline };
+  }, [avgDurationRows, selectedMonth, isAllRange, dateRange, monthlyTotals, baselineRange]);
 
-  const rangeLabel = useMemo(() => {
-    if (month !== "ALL") {
-      const d = dayjs(`${month}-01`);
-      return d.isValid() ? d.format("YYYY 年 MM 月") : month;
-    }
-    if (year !== "ALL") return `${year} 年`;
-    return "";
-  }, [year, month]);
+  // 比較模式的 KPI 變化；比較期間沒有任何資料時不顯示
+  const kpiChanges = useMemo(() => {
+    if (!baselineTrend?.length || !baselineRange) return { total: null, daily: null };
+    const baselineTotal = baselineTrend.reduce((sum, r) => sum + (r.count || 0), 0);
+    const baselineDaily = workdayAverage(baselineTrend, baselineRange.start, baselineRange.end);
+    return {
+      total: { current: monthTotalCount, baseline: baselineTotal } as Change,
+      daily: averageDailyCount != null && baselineDaily ? { current: averageDailyCount, baseline: baselineDaily.value } as Change : null,
+    };
+  }, [baselineTrend, baselineRange, monthTotalCount, averageDailyCount, workdayAverage]);
+  const durationChange: Change | null =
+    avgDurationStat.value != null && avgDurationStat.baseline != null
+      ? { current: avgDurationStat.value, baseline: avgDurationStat.baseline }
+      : null;
 
-  const exportKey = useMemo(() => {
-    if (month !== "ALL") return month;
-    if (year !== "ALL") return year;
-    return "all";
-  }, [year, month]);
+  const { totalLabel, label: rangeLabel, exportKey } = dateRange;
+  // 區間在同一年且逐日呈現時，座標軸省略年份
+  const shortDates = dateRange.daily && dateRange.start?.slice(0, 4) === dateRange.end?.slice(0, 4);
 
   const dateTickFormatter = useMemo(() => {
     return (value: string) => {
       const d = dayjs(value);
       if (!d.isValid()) return value;
-      return month !== "ALL" ? d.format("MM-DD") : d.format("YYYY-MM-DD");
+      return shortDates ? d.format("MM-DD") : d.format("YYYY-MM-DD");
     };
-  }, [month]);
+  }, [shortDates]);
 
   const tooltipLabelFormatter = useMemo(() => {
     return (value: string) => {
       const d = dayjs(value);
       if (!d.isValid()) return value;
-      return month !== "ALL" ? d.format("YYYY-MM-DD") : d.format("YYYY-MM-DD");
+      return d.format("YYYY-MM-DD");
     };
-  }, [month]);
-
-  // 模組 Top5：使用 moduleByMonth（month, module, count）
-  const topRows: TopRow[] = useMemo(() => {
-    const normalized = (moduleByMonth ?? [])
-      .map((r: any) => {
-        const rawMonth = r["month"] ?? r["月份"] ?? r["Month"];
-        const mk = monthKey(String(rawMonth ?? ""));
-        if (!mk || mk.length < 7) return null;
-        const module = String(r["module"] ?? r["模組"] ?? r["Module"] ?? "");
-        if (!module) return null;
-        const count = Number(r["count"] ?? r["件數"] ?? r["Count"] ?? 0);
-        return { month: mk, year: yearFromMonth(mk), module, count };
-      })
-      .filter(Boolean) as Array<{ month: string; year: string; module: string; count: number }>;
-
-    const filtered = normalized.filter(item => {
-      if (year !== "ALL" && item.year !== year) return false;
-      if (month !== "ALL" && item.month !== month) return false;
-      return true;
-    });
-
-    const totals = new Map<string, number>();
-    for (const r of filtered) {
-      totals.set(r.module, (totals.get(r.module) ?? 0) + r.count);
-    }
-
-    return Array.from(totals.entries())
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value)
-      .slice(0, 5);
-  }, [moduleByMonth, year, month]);
-
-  const filteredCalls = useMemo(() => {
-    if (!calls?.length) return [] as Array<Record<string, any>>;
-    return (calls as Array<Record<string, any>>).filter(row => {
-      const mk = monthKey(String(row["call_month"] ?? row["call_time"] ?? ""));
-      if (!mk || mk.length < 7) return false;
-      if (year !== "ALL" && yearFromMonth(mk) !== year) return false;
-      if (month !== "ALL" && mk !== month) return false;
-      return true;
-    });
-  }, [calls, year, month]);
-
-  const durationBase = useMemo(() => {
-    const rows: DurationRow[] = [];
-    const missing: Array<Record<string, any>> = [];
-    const categoryTotals = new Map<string, number>();
-    const moduleTotals = new Map<string, number>();
-
-    const normalizeCategory = (row: Record<string, any>) => {
-      const value =
-        row["category"] ??
-        row["分類"] ??
-        row["Category"] ??
-        row["呼叫分類"] ??
-        row["類別"];
-      const name = String(value ?? "").trim();
-      return name || "未分類";
-    };
-
-    const normalizeModule = (row: Record<string, any>) => {
-      const value =
-        row["module"] ??
-        row["模組"] ??
-        row["Module"] ??
-        row["呼叫模組"] ??
-        row["系統"];
-      const name = String(value ?? "").trim();
-      return name || "未指派";
-    };
-
-    for (const rawRow of filteredCalls) {
-      const rawDuration = Number(rawRow["resolve_minute"] ?? rawRow["resolve_minutes"]);
-      const category = normalizeCategory(rawRow);
-      const moduleName = normalizeModule(rawRow);
-      const sourceRow = rawRow as Record<string, any>;
-
-      categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + 1);
-      moduleTotals.set(moduleName, (moduleTotals.get(moduleName) ?? 0) + 1);
+  }, []);
 
-      if (!Number.isFinite(rawDuration)) {
-        missing.push(sourceRow);
-        continue;
-      }
-
-      const minutes = Math.max(0, rawDuration);
-      rows.push({ minutes, category, module: moduleName, source: sourceRow });
-    }
-
-    return { rows, missing, categoryTotals, moduleTotals };
-  }, [filteredCalls]);
-
-  const durationCategoryOptions = useMemo(() => {
-    return Array.from(durationBase.categoryTotals.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([name]) => name);
-  }, [durationBase.categoryTotals]);
+  // 模組排行使用 moduleByMonth（month, module, count）；名次變化比較基準期間，未開啟比較時比較前一期間
+  const rankBaselineRange = useMemo(
+    () => baselineRange ?? compareRange({ kind: "previous" }, dateRange, anchorDate),
+    [baselineRange, dateRange, anchorDate],
+  );
+  const moduleRanking = useMemo(
+    () => rankModules(moduleRows, dateRange, rankBaselineRange, moduleRankParams.topN),
+    [moduleRows, dateRange, rankBaselineRange, moduleRankParams.topN],
+  );
 
-  const durationModuleOptions = useMemo(() => {
-    return Array.from(durationBase.moduleTotals.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([name]) => name);
-  }, [durationBase.moduleTotals]);
 
   useEffect(() => {
-    if (durationGroupBy === "none") {
-      if (durationGroupSelection !== "ALL") setDurationGroupSelection("ALL");
-      if (durationFacetEnabled) setDurationFacetEnabled(false);
-      return;
+    // 不分組時無法分面；自動修正不另外產生瀏覽紀錄
+    if (durationGroupBy === "none" && durationFacetEnabled) {
+      updateView(prev => ({ ...prev, duration: { ...prev.duration, facet: false } }), { replace: true });
     }
-    const options = durationGroupBy === "category" ? durationCategoryOptions : durationModuleOptions;
-    if (durationGroupSelection !== "ALL" && !options.includes(durationGroupSelection)) {
-      setDurationGroupSelection("ALL");
-    }
-    if (durationGroupSelection !== "ALL" && durationFacetEnabled) {
-      setDurationFacetEnabled(false);
-    }
-  }, [
-    durationGroupBy,
-    durationCategoryOptions,
-    durationModuleOptions,
-    durationGroupSelection,
-    durationFacetEnabled,
-  ]);
-
-  const durationFilterOptions = durationGroupBy === "category"
-    ? durationCategoryOptions
-    : durationGroupBy === "module"
-    ? durationModuleOptions
-    : [];
-  const canFacet = durationGroupBy !== "none" && durationGroupSelection === "ALL";
-
+  }, [updateView, durationGroupBy, durationFacetEnabled]);
+
+  // 分佈圖的分組選單與工具列共用同一份模組、分類篩選
+  const durationFilterKey = durationGroupBy === "category" ? "categories" : "modules";
+  const canFacet = durationGroupBy !== "none";
+
+  // 已設定分類趨勢表時優先使用；載入失敗且沒有任何資料時退回案件明細。
+  // 分類趨勢表無法依模組、星期拆分，交叉篩選時一律由明細計算
+  const categoryFromSheet =
+    !crossActive && status.categoryTrend.enabled && (categoryTrend.length > 0 || !status.categoryTrend.error);
+  const sheetCategoryStack = useMemo(() => {
+    if (!categoryFromSheet) return null;
+    return buildCategoryTrendStack(categoryTrend, { start: dateRange.start, end: dateRange.end, daily: dateRange.daily });
+  }, [categoryFromSheet, categoryTrend, dateRange]);
   const {
     data: categoryStackData,
     keys: categoryStackKeys,
     isDaily: categoryStackIsDaily,
-  } = useMemo(() => {
-    if (!filteredCalls.length) {
-      return {
-        data: [] as Array<Record<string, number | string>>,
-        keys: [] as string[],
-        isDaily: month !== "ALL",
-      };
-    }
+  } = sheetCategoryStack ?? categoryStack;
 
-    const useDaily = month !== "ALL";
-    const aggregate = new Map<string, Map<string, number>>();
-    const totals = new Map<string, number>();
-
-    for (const row of filteredCalls) {
-      const rawMonth = row["call_month"] ?? row["month"] ?? row["call_time"];
-      const mk = monthKey(String(rawMonth ?? ""));
-      if (!mk || mk.length < 7) continue;
-      const callDate = dayjs(row["call_time"]);
-      const bucketKey = useDaily && callDate.isValid() ? callDate.format("YYYY-MM-DD") : mk;
-      const category = String(row["category"] ?? row["分類"] ?? "").trim() || "未分類";
-
-      if (!aggregate.has(bucketKey)) aggregate.set(bucketKey, new Map());
-      const bucket = aggregate.get(bucketKey)!;
-      bucket.set(category, (bucket.get(category) ?? 0) + 1);
-
-      totals.set(category, (totals.get(category) ?? 0) + 1);
-    }
-
-    if (!aggregate.size) {
-      return {
-        data: [] as Array<Record<string, number | string>>,
-        keys: [] as string[],
-        isDaily: useDaily,
-      };
-    }
-
-    const topCategories = Array.from(totals.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([key]) => key);
-
-    const sortedKeys = Array.from(aggregate.keys()).sort((a, b) => a.localeCompare(b));
-
-    const dataRows = sortedKeys.map(periodKey => {
-      const bucket = aggregate.get(periodKey)!;
-      const row: Record<string, number | string> = { period: periodKey };
-
-      for (const [category, count] of bucket.entries()) {
-        if (topCategories.includes(category)) {
-          row[category] = count;
-        }
-      }
-
-      return row;
-    });
-
-    const keys = [...topCategories];
-
-    return { data: dataRows, keys, isDaily: useDaily };
-  }, [filteredCalls, month]);
+  // 分類趨勢表與案件明細逐日逐分類比對，只列出目前期間內的差異
+  const categoryMismatches = useMemo(() => {
+    if (!categoryFromSheet || !categoryTrend.length || !calls.length) return [];
+    return reconcileCategoryTrend(categoryTrend, calls).mismatches.filter(row => inRange(row.date, dateRange));
+  }, [categoryFromSheet, categoryTrend, calls, dateRange]);
 
   const categoryColorMap = useMemo(() => {
     const map = new Map<string, string>();
-    categoryStackKeys.forEach((key, idx) => {
-      const color = CATEGORY_COLOR_PALETTE[idx % CATEGORY_COLOR_PALETTE.length];
-      map.set(key, color);
-    });
+    categoryStackKeys.forEach((key, idx) => map.set(key, categoryColor(idx)));
     return map;
   }, [categoryStackKeys]);
 
@@ -624,433 +588,207 @@ export default function Dashboard() {
     };
   }, [categoryStackIsDaily]);
 
-  const durationChart = useMemo(() => {
-    const { rows: allRows, missing } = durationBase;
-    const groupLabel = durationGroupBy === "category" ? "分類" : durationGroupBy === "module" ? "模組" : null;
-
-    if (!allRows.length) {
-      return {
-        rows: [] as Array<Record<string, any>>,
-        csvRows: [] as Array<Record<string, any>>,
-        seriesKeys: [] as string[],
-        colorMap: new Map<string, string>(),
-        bucketDetails: new Map<string, { label: string; groupLabel: string | null; min: number; max: number | null; rows: Array<Record<string, any>> }>(),
-        totalCount: 0,
-        mean: null as number | null,
-        median: null as number | null,
-        meanLabel: null as string | null,
-        medianLabel: null as string | null,
-        missingCount: missing.length,
-        missingRows: missing,
-        groupLabel,
-        facet: false,
-        groupDisplay: new Map<string, string>(),
-      };
-    }
-
-    const focusLimit = durationFocus30 ? 30 : null;
-    const usingCategory = durationGroupBy === "category";
-    const usingModule = durationGroupBy === "module";
-    const groupField = usingCategory ? "category" : usingModule ? "module" : null;
-
-    let activeRows = allRows;
-    if (usingCategory && durationGroupSelection !== "ALL") {
-      activeRows = allRows.filter(row => row.category === durationGroupSelection);
-    } else if (usingModule && durationGroupSelection !== "ALL") {
-      activeRows = allRows.filter(row => row.module === durationGroupSelection);
-    }
-
-    const selectedDisplayName =
-      usingCategory && durationGroupSelection !== "ALL"
-        ? durationGroupSelection
-        : usingModule && durationGroupSelection !== "ALL"
-        ? durationGroupSelection
-        : "全部";
-
-    if (!activeRows.length) {
-      return {
-        rows: [] as Array<Record<string, any>>,
-        csvRows: [] as Array<Record<string, any>>,
-        seriesKeys: ["__all"],
-        colorMap: new Map<string, string>([["__all", CATEGORY_COLOR_PALETTE[0]]]),
-        bucketDetails: new Map<string, { label: string; groupLabel: string | null; min: number; max: number | null; rows: Array<Record<string, any>> }>(),
-        totalCount: 0,
-        mean: null as number | null,
-        median: null as number | null,
-        meanLabel: null as string | null,
-        medianLabel: null as string | null,
-        missingCount: missing.length,
-        missingRows: missing,
-        groupLabel,
-        facet: false,
-        groupDisplay: new Map<string, string>([["__all", selectedDisplayName]]),
-      };
-    }
-
-    const valuesSorted = [...activeRows].map(row => row.minutes).sort((a, b) => a - b);
-    const totalCount = valuesSorted.length;
-    const mean = valuesSorted.reduce((sum, value) => sum + value, 0) / totalCount;
-    const median =
-      totalCount % 2 === 0
-        ? (valuesSorted[totalCount / 2 - 1] + valuesSorted[totalCount / 2]) / 2
-        : valuesSorted[Math.floor(totalCount / 2)];
-
-    const valuesForBins = focusLimit == null
-      ? activeRows.map(row => row.minutes)
-      : activeRows.filter(row => row.minutes <= focusLimit).map(row => row.minutes);
-    const overLimitRows = focusLimit == null
-      ? [] as DurationRow[]
-      : activeRows.filter(row => row.minutes > focusLimit);
-
-    const buildFixedBins = (limit: number | null) => {
-      let bins = FIXED_DURATION_BINS.map(bin => ({
-        min: bin.min,
-        max: bin.max,
-        label: formatDurationLabel(bin.min, bin.max),
-      }));
-      if (limit != null) {
-        bins = bins.filter(bin => (bin.max ?? Infinity) <= limit + 1e-6);
-      }
-      if (!bins.length) {
-        const max = limit != null ? limit : valuesSorted[valuesSorted.length - 1];
-        const safeMax = Number.isFinite(max) ? max : 30;
-        bins = [{ min: 0, max: safeMax, label: formatDurationLabel(0, safeMax) }];
-      }
-      return bins;
-    };
-
-    const buildAutoBins = (limit: number | null) => {
-      if (!valuesForBins.length) {
-        const fallback = limit != null ? limit : valuesSorted[valuesSorted.length - 1];
-        const safeMax = Number.isFinite(fallback) ? fallback : 30;
-        return [{ min: 0, max: safeMax, label: formatDurationLabel(0, safeMax) }];
-      }
-      const minValue = Math.min(...valuesForBins);
-      const maxValue = Math.max(...valuesForBins);
-      if (minValue === maxValue) {
-        const width = Math.max(1, minValue);
-        const lower = Math.max(0, minValue - width / 2);
-        return [{ min: lower, max: minValue + width / 2, label: formatDurationLabel(lower, minValue + width / 2) }];
-      }
-      const span = Math.max(maxValue - minValue, 1);
-      const desiredBins = Math.min(12, Math.max(4, Math.ceil(Math.sqrt(valuesForBins.length))));
-      const width = span / desiredBins;
-      const bins: Array<{ min: number; max: number; label: string }> = [];
-      let start = minValue;
-      for (let i = 0; i < desiredBins; i += 1) {
-        const end = i === desiredBins - 1 ? maxValue : start + width;
-        bins.push({ min: start, max: end, label: formatDurationLabel(start, end) });
-        start = end;
-      }
-      return bins;
-    };
-
-    const baseBins = durationBinMode === "fixed"
-      ? buildFixedBins(focusLimit)
-      : buildAutoBins(focusLimit);
-
-    const binSummaries = baseBins.map((bin, index) => ({
-      ...bin,
-      key: "bin-" + index,
-      counts: new Map<string, number>(),
-      total: 0,
-    }));
-
-    let overLimitIndex: number | null = null;
-    if (focusLimit != null && overLimitRows.length) {
-      overLimitIndex = binSummaries.length;
-      binSummaries.push({
-        min: focusLimit,
-        max: null,
-        label: focusLimit + "+ 分",
-        key: "bin-" + binSummaries.length,
-        counts: new Map<string, number>(),
-        total: 0,
-      });
-    }
-
-    const getRowGroup = (row: DurationRow) => {
-      if (groupField === "category") return row.category;
-      if (groupField === "module") return row.module;
-      return "__all";
-    };
-
-    const facet = durationFacetEnabled && durationGroupBy !== "none" && durationGroupSelection === "ALL" && groupField !== null;
-    const groupTotals = new Map<string, number>();
-    const colorMap = new Map<string, string>();
-    const groupDisplay = new Map<string, string>();
-
-    let groupKeys: string[] = [];
-    let topGroupSet: Set<string> | null = null;
-
-    if (facet) {
-      const totalsByGroup = new Map<string, number>();
-      for (const row of activeRows) {
-        const key = getRowGroup(row);
-        totalsByGroup.set(key, (totalsByGroup.get(key) ?? 0) + 1);
-      }
-      const sortedGroups = Array.from(totalsByGroup.entries()).sort((a, b) => b[1] - a[1]);
-      const topGroups = sortedGroups.slice(0, 5).map(([key]) => key);
-      groupKeys = [...topGroups];
-      topGroupSet = new Set(topGroups);
-      const othersCount = sortedGroups.slice(5).reduce((sum, [, value]) => sum + value, 0);
-      if (othersCount > 0) {
-        groupKeys.push(DURATION_OTHERS_KEY);
-      }
-      for (const key of groupKeys) {
-        groupDisplay.set(key, key === DURATION_OTHERS_KEY ? DURATION_OTHERS_KEY : key);
-      }
-    } else {
-      groupKeys = ["__all"];
-      groupDisplay.set("__all", selectedDisplayName);
-    }
-
-    groupKeys.forEach((key, index) => {
-      colorMap.set(key, CATEGORY_COLOR_PALETTE[index % CATEGORY_COLOR_PALETTE.length]);
-      groupTotals.set(key, 0);
-    });
-
-    const bucketDetails = new Map<string, { label: string; groupLabel: string | null; min: number; max: number | null; rows: Array<Record<string, any>> }>();
-
-    const getGroupKey = (row: DurationRow) => {
-      if (!facet) return "__all";
-      const value = getRowGroup(row);
-      if (topGroupSet && topGroupSet.has(value)) return value;
-      return DURATION_OTHERS_KEY;
-    };
-
-    const assignRowToBinIndex = (value: number) => {
-      if (overLimitIndex != null && focusLimit != null && value > focusLimit) {
-        return overLimitIndex;
-      }
-      for (let i = 0; i < baseBins.length; i += 1) {
-        const bin = baseBins[i];
-        const max = bin.max ?? Infinity;
-        const inclusive = i === baseBins.length - 1;
-        const upperBound = inclusive ? max + 1e-6 : max;
-        if (value >= bin.min && value < upperBound) {
-          return i;
-        }
-      }
-      return baseBins.length - 1;
-    };
-
-    for (const row of activeRows) {
-      const groupKey = getGroupKey(row);
-      const binIndex = assignRowToBinIndex(row.minutes);
-      const summary = binSummaries[binIndex];
-      summary.counts.set(groupKey, (summary.counts.get(groupKey) ?? 0) + 1);
-      summary.total += 1;
-      groupTotals.set(groupKey, (groupTotals.get(groupKey) ?? 0) + 1);
-
-      const detailKey = binIndex + "|" + groupKey;
-      if (!bucketDetails.has(detailKey)) {
-        bucketDetails.set(detailKey, {
-          label: summary.label,
-          groupLabel: groupKey === "__all" ? null : (groupDisplay.get(groupKey) ?? groupKey),
-          min: summary.min,
-          max: summary.max ?? null,
-          rows: [],
-        });
-      }
-      bucketDetails.get(detailKey)!.rows.push(row.source);
-    }
-
-    const overallTotal = activeRows.length;
-    const rows: Array<Record<string, any>> = [];
-    binSummaries.forEach((bin, index) => {
-      if (bin.total === 0 && bin.max !== null && durationBinMode !== "fixed") {
-        return;
-      }
-      const record: Record<string, any> = {
-        label: bin.label,
-        bucketKey: String(index),
-        min: bin.min,
-        max: bin.max ?? null,
-        total: bin.total,
-      };
-      const countsRecord: Record<string, number> = {};
-      const percentRecord: Record<string, number> = {};
-      for (const key of groupKeys) {
-        const count = bin.counts.get(key) ?? 0;
-        countsRecord[key] = count;
-        const denominator = facet ? (groupTotals.get(key) ?? 0) || 1 : overallTotal || 1;
-        const percent = denominator ? (count / denominator) * 100 : 0;
-        percentRecord[key] = percent;
-        record[key] = durationMetric === "count" ? count : Number(percent.toFixed(1));
-      }
-      record.__counts = countsRecord;
-      record.__percents = percentRecord;
-      rows.push(record);
-    });
-
-    const csvRows = rows.map(row => {
-      const base: Record<string, any> = {
-        區間: row.label,
-        總件數: row.total,
-      };
-      const counts = row.__counts as Record<string, number>;
-      const percents = row.__percents as Record<string, number>;
-      for (const key of groupKeys) {
-        const display = groupDisplay.get(key) ?? key;
-        base[display + "-件數"] = counts[key] ?? 0;
-        base[display + "-佔比(%)"] = Number((percents[key] ?? 0).toFixed(1));
-      }
-      return base;
-    });
-
-    if (missing.length) {
-      csvRows.push({
-        區間: "未填寫",
-        總件數: missing.length,
-        "全部-件數": missing.length,
-        "全部-佔比(%)": Number(((missing.length / (overallTotal + missing.length)) * 100).toFixed(1)),
-      });
-    }
-
-    const findLabelForValue = (value: number | null) => {
-      if (value == null) return null;
-      if (focusLimit != null && value > focusLimit && overLimitIndex != null) {
-        return focusLimit + "+ 分";
-      }
-      for (const bin of binSummaries) {
-        const max = bin.max ?? Infinity;
-        if (value >= bin.min && value <= max + 1e-6) {
-          return bin.label;
-        }
-      }
-      return null;
-    };
-
-    const meanLabel = findLabelForValue(mean);
-    const medianLabel = findLabelForValue(median);
-
-    return {
-      rows,
-      csvRows,
-      seriesKeys: groupKeys,
-      colorMap,
-      bucketDetails,
-      totalCount,
-      mean,
-      median,
-      meanLabel,
-      medianLabel,
-      missingCount: missing.length,
-      missingRows: missing,
-      groupLabel,
-      facet,
-      groupDisplay,
-    };
-  }, [
-    durationBase,
-    durationBinMode,
-    durationFacetEnabled,
-    durationFocus30,
-    durationGroupBy,
-    durationGroupSelection,
-    durationMetric,
-  ]);
-
-  const handleDurationBarClick = (entry: any, seriesKey: string) => {
+  const handleDurationBarClick = (entry: { payload?: DurationChartRow }, seriesKey: string) => {
     const payload = entry?.payload;
     if (!payload) return;
     const bucketKey = String(payload.bucketKey ?? "");
     const detailKey = bucketKey + "|" + seriesKey;
     const detail = durationChart.bucketDetails.get(detailKey);
     if (!detail || !detail.rows.length) return;
-    setDrawerState({
-      type: "duration",
-      label: detail.label,
-      groupLabel: detail.groupLabel,
-      min: detail.min,
-      max: detail.max,
-      rows: detail.rows,
-    });
+    setDrawerState({ type: "duration", bucket: bucketKey, series: seriesKey });
+  };
+
+  // 抽屜只記錄區間鍵，內容隨目前的分佈圖結果解析；資料更新時跟著更新
+  const durationDrawer = useMemo(() => {
+    if (drawerState?.type !== "duration") return null;
+    const detail = durationChart.bucketDetails.get(`${drawerState.bucket}|${drawerState.series}`);
+    if (!detail) return null;
+    return { ...detail, rows: detail.rows.map(index => viewCalls[index]) };
+  }, [drawerState, durationChart, viewCalls]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // 非安全來源（http）或權限被拒時無法寫入剪貼簿，改讓使用者手動複製
+      window.prompt("複製此畫面的連結", window.location.href);
+    }
   };
 
   const durationMeanDisplay = durationChart.mean != null ? durationChart.mean.toFixed(1) : null;
   const durationMedianDisplay = durationChart.median != null ? durationChart.median.toFixed(1) : null;
+  const percentileRows = useMemo(() => {
+    const round = (value: number) => Number(value.toFixed(2));
+    return durationStats.groups.map(row => ({
+      分組: row.name,
+      件數: row.count,
+      平均: round(row.mean),
+      ...Object.fromEntries(DURATION_PERCENTILES.map(p => [`P${p}`, round(row.percentiles[p])])),
+      最小: round(row.min),
+      最大: round(row.max),
+      離群件數: row.outliers,
+    }));
+  }, [durationStats]);
+  const boxRows = useMemo(
+    () => durationStats.groups.map(row => ({ ...row, range: [row.whiskerLow, row.whiskerHigh] as [number, number] })),
+    [durationStats],
+  );
 
   const trendRef = useRef<HTMLDivElement | null>(null);
   const categoryRef = useRef<HTMLDivElement | null>(null);
   const weekdayRef = useRef<HTMLDivElement | null>(null);
+  const heatmapRef = useRef<HTMLDivElement | null>(null);
   const durationRef = useRef<HTMLDivElement | null>(null);
-  const topRef = useRef<HTMLDivElement | null>(null);
-
-  const png = async (ref: React.RefObject<HTMLDivElement | null>, name: string) => {
-    if (!ref.current) return;
-    const canvas = await html2canvas(ref.current, { backgroundColor: "#fff", scale: 2 });
-    canvas.toBlob(b => b && download(name, b));
-  };
+  const slaRef = useRef<HTMLDivElement | null>(null);
 
+  // 依工作日曆分類每一天：一般日依星期幾平均，國定假日與補班日另外彙總，不影響所屬星期的平均
   const weekdayChartData = useMemo(() => {
-    const order = ["週一", "週二", "週三", "週四", "週五", "週六", "週日"];
-    const labelByDay = ["週日", "週一", "週二", "週三", "週四", "週五", "週六"];
+    const counts = new Map(groupTrendInRange.map(row => [row.date, row.count || 0]));
+    if (!counts.size) return [];
     const stats = new Map<string, { total: number; days: number }>();
-
-    for (const row of filteredTrend) {
-      const d = dayjs(row.date);
-      if (!d.isValid()) continue;
-      const label = labelByDay[d.day()];
-      if (label === "週六") continue; // 週六固定 0
-      if (!stats.has(label)) stats.set(label, { total: 0, days: 0 });
-      const st = stats.get(label)!;
-      st.total += row.count || 0;
+    const span = clampSpan(dateRange.start, dateRange.end);
+    // 以日曆逐日計算，沒有進件的日子也算進天數
+    for (let d = dayjs(span.start); !d.isAfter(span.end, "day"); d = d.add(1, "day")) {
+      const date = d.format("YYYY-MM-DD");
+      const { kind } = calendar(date);
+      const name = kind === "holiday" ? HOLIDAY_BAR : kind === "makeup" ? MAKEUP_BAR : WEEKDAY_LABELS[d.day()];
+      if (!stats.has(name)) stats.set(name, { total: 0, days: 0 });
+      const st = stats.get(name)!;
+      st.total += counts.get(date) ?? 0;
       st.days += 1;
     }
 
-    return order.map(name => {
-      const st = stats.get(name);
-      const average = name === "週六" ? 0 : (st && st.days ? st.total / st.days : 0);
-      const total = name === "週六" ? 0 : (st?.total ?? 0);
-      return { name, average: +average.toFixed(1), total };
-    });
-  }, [filteredTrend]);
+    const order = WEEKDAY_ORDER.map(day => WEEKDAY_LABELS[day]);
+    return [...order, MAKEUP_BAR, HOLIDAY_BAR]
+      .filter(name => order.includes(name) || stats.has(name))
+      .map(name => {
+        const st = stats.get(name);
+        const average = st && st.days ? st.total / st.days : 0;
+        return { name, average: +average.toFixed(1), total: st?.total ?? 0, days: st?.days ?? 0 };
+      });
+  }, [groupTrendInRange, calendar, clampSpan, dateRange]);
+
+  const slaSummary = slaRules.length ? callsView?.sla ?? null : null;
+  const slaChange: Change | null =
+    slaSummary?.rate != null && slaSummary.baselineRate != null
+      ? { current: slaSummary.rate, baseline: slaSummary.baselineRate }
+      : null;
+  const slaBreachRows = useMemo(() => {
+    if (drawerState?.type !== "sla" || !slaSummary) return [];
+    return slaSummary.breaches.map(({ index, target }) => ({ ...viewCalls[index], target }));
+  }, [drawerState, slaSummary, viewCalls]);
+  const slaMonthlyRows = useMemo(
+    () => (slaSummary?.monthly ?? []).map(item => ({ ...item, rate: item.rate != null ? +item.rate.toFixed(1) : null })),
+    [slaSummary],
+  );
+
+  const dayDrilldownRows = useMemo(() => {
+    if (drawerState?.type !== "day" || !callsView) return [];
+    return callsView.indices.map(index => viewCalls[index]).filter(row => row.date === drawerState.date);
+  }, [callsView, viewCalls, drawerState]);
+
+  const monthDrilldownRows = useMemo(() => {
+    if (drawerState?.type !== "month" || !callsView) return [];
+    return callsView.indices.map(index => viewCalls[index]).filter(row => row.month === drawerState.month);
+  }, [callsView, viewCalls, drawerState]);
+
+  const hourDrilldownRows = useMemo(() => {
+    if (drawerState?.type !== "hour" || !callsView) return [];
+    const { weekday, hour } = drawerState;
+    return callsView.indices
+      .map(index => viewCalls[index])
+      .filter(row => row.date && dayjs(row.date).day() === weekday && hourOf(row.callTime) === hour);
+  }, [callsView, viewCalls, drawerState]);
+
+  const volumeProfile = callsView?.profile ?? EMPTY_CALLS_VIEW.profile;
+  const heatmapRows = useMemo(() => {
+    if (!volumeProfile.hourly) return [];
+    return WEEKDAY_ORDER.flatMap(weekday =>
+      volumeProfile.byHour[weekday].map((total, hour) => ({
+        weekday: WEEKDAY_LABELS[weekday],
+        hour: `${String(hour).padStart(2, "0")}:00`,
+        total,
+        average: volumeProfile.days[weekday] ? +(total / volumeProfile.days[weekday]).toFixed(2) : 0,
+      })),
+    );
+  }, [volumeProfile]);
 
   const moduleDrilldownRows = useMemo(() => {
-    if (drawerState?.type !== "module") return [];
-    return filteredCalls.filter((row: any) => {
-      const moduleName = String(row["module"] ?? row["模組"] ?? row["Module"] ?? "");
-      return moduleName === drawerState.name;
-    });
-  }, [filteredCalls, drawerState]);
+    if (drawerState?.type !== "module" || !callsView) return [];
+    return callsView.indices.map(index => viewCalls[index]).filter(row => row.module === drawerState.name);
+  }, [callsView, viewCalls, drawerState]);
 
   const insights = useMemo(() => {
     const list: string[] = [];
-    if (!trendAll.length) return list;
+    if (!trendBase.length) return list;
+
+    // 月份的每工作日平均
+    const monthAverage = (month: string) => {
+      const start = dayjs(`${month}-01`);
+      const rows = trendBase.filter(row => row.date.startsWith(month));
+      const stat = workdayAverage(rows, start.format("YYYY-MM-DD"), start.endOf("month").format("YYYY-MM-DD"));
+      return stat ? `，平均每個工作日 ${formatNumber(Math.round(stat.value))} 件` : "";
+    };
 
-    if (month !== "ALL" && selectedMonthly) {
-      const { total, days } = selectedMonthly;
+    if (selectedMonth && selectedMonthly) {
+      const { total } = selectedMonthly;
       const mom = previousMonthly && previousMonthly.total ? ((total - previousMonthly.total) / previousMonthly.total) * 100 : null;
       const yoy = yoyMonthly && yoyMonthly.total ? ((total - yoyMonthly.total) / yoyMonthly.total) * 100 : null;
-      list.push(`本月共處理 ${formatNumber(total)} 件，平均每天 ${formatNumber(Math.round(total / Math.max(days, 1)))} 件`);
+      list.push(`本月共處理 ${formatNumber(total)} 件${monthAverage(selectedMonthly.month)}`);
       if (mom != null) list.push(`相較上月 ${formatPercent(mom)}`);
       if (yoy != null) list.push(`相較去年同期 ${formatPercent(yoy)}`);
-    } else if (year !== "ALL") {
-      const avg = filteredTrend.length ? monthTotalCount / filteredTrend.length : 0;
-      list.push(`${year} 年累積 ${formatNumber(monthTotalCount)} 件，平均每天 ${formatNumber(Math.round(avg))} 件`);
+    } else if (!isAllRange) {
+      const average = workdayStat ? `，平均每個工作日 ${formatNumber(Math.round(workdayStat.value))} 件` : "";
+      list.push(`${dateRange.label}累積 ${formatNumber(monthTotalCount)} 件${average}`);
+      // 比較期間沒有任何資料時不列出
+      const periodTotal = (r: DateRange | null) => {
+        if (!r) return null;
+        const rows = trendBase.filter(row => inRange(row.date, r));
+        return rows.length ? rows.reduce((sum, row) => sum + (row.count || 0), 0) : null;
+      };
+      const previousTotal = periodTotal(compareRange({ kind: "previous" }, dateRange, anchorDate));
+      const lastYearTotal = periodTotal(compareRange({ kind: "lastYear" }, dateRange, anchorDate));
+      if (previousTotal) list.push(`相較前一期間 ${formatPercent(((monthTotalCount - previousTotal) / previousTotal) * 100)}`);
+      if (lastYearTotal) list.push(`相較去年同期 ${formatPercent(((monthTotalCount - lastYearTotal) / lastYearTotal) * 100)}`);
     } else if (selectedMonthly) {
-      const { total, days } = selectedMonthly;
-      list.push(`最近月份共處理 ${formatNumber(total)} 件，平均每天 ${formatNumber(Math.round(total / Math.max(days, 1)))} 件`);
+      list.push(`最近月份共處理 ${formatNumber(selectedMonthly.total)} 件${monthAverage(selectedMonthly.month)}`);
     } else {
-      list.push(`目前共有 ${formatNumber(trendAll.length)} 日的紀錄，累積 ${formatNumber(monthTotalCount)} 件`);
+      list.push(`目前共有 ${formatNumber(trendBase.length)} 日的紀錄，累積 ${formatNumber(monthTotalCount)} 件`);
     }
 
     if (filteredTrend.length) {
       const peak = filteredTrend.reduce((acc, cur) => (cur.count > (acc?.count ?? -Infinity) ? cur : acc), null as TrendRow | null);
-      const low = filteredTrend.reduce((acc, cur) => (cur.count < (acc?.count ?? Infinity) ? cur : acc), null as TrendRow | null);
+      // 國定假日、週末本來就少件，最低進件日只在工作日中找
+      const low = filteredTrend
+        .filter(row => calendar(row.date).working)
+        .reduce((acc, cur) => (cur.count < (acc?.count ?? Infinity) ? cur : acc), null as TrendRow | null);
       if (peak) list.push(`尖峰日 ${dayjs(peak.date).format("YYYY/MM/DD" )} 有 ${formatNumber(peak.count)} 件`);
       if (low && low !== peak) list.push(`最低進件日為 ${dayjs(low.date).format("YYYY/MM/DD")}，僅 ${formatNumber(low.count)} 件`);
     }
 
-    if (topRows.length) {
-      const [topModule] = topRows;
+    if (slaSummary?.rate != null) {
+      const worst = slaSummary.byModule[0];
+      list.push(`SLA 達成率 ${slaSummary.rate.toFixed(1)}%${worst ? `，逾時最多的模組：${worst.module}（${formatNumber(worst.breached)} 件）` : ""}`);
+    }
+
+    if (moduleRanking.rows.length) {
+      const [topModule] = moduleRanking.rows;
       list.push(`模組最多進件：${topModule.name}，${formatNumber(topModule.value)} 件`);
     }
 
     return list;
-  }, [selectedMonthly, previousMonthly, yoyMonthly, filteredTrend, topRows, trendAll.length, monthTotalCount, year]);
+  }, [selectedMonthly, previousMonthly, yoyMonthly, filteredTrend, moduleRanking, trendBase, monthTotalCount, selectedMonth, isAllRange, dateRange, anchorDate, slaSummary, workdayAverage, workdayStat, calendar]);
+
+  // 快取狀態：只要有資料集仍在使用快取，就在工具列提示最舊的快取時間
+  const cachedSources = DATASET_KEYS.filter(key => status[key].enabled && status[key].fromCache);
+  const oldestCachedAt = cachedSources.reduce<number | null>((min, key) => {
+    const at = status[key].lastSuccess;
+    if (at == null) return min;
+    return min == null ? at : Math.min(min, at);
+  }, null);
+  const cacheRefreshing = cachedSources.some(key => status[key].refreshing);
 
   if (loading) return <LoadingState />;
 
@@ -1060,50 +798,140 @@ export default function Dashboard() {
       <div className="toolbar">
         <div className="title">IV&V / 客服 數據儀表板</div>
         <div className="filter-group">
-          <div className="tool-actions">
-            <label className="label">年份</label>
-            <select className="select" value={year} onChange={e => setYear(e.target.value)}>
-              <option value="ALL">全部年份</option>
-              {years.map(y => <option key={y} value={y}>{y}</option>)}
-            </select>
-          </div>
-          <div className={`tool-actions${isYearAll ? " tool-actions--disabled" : ""}`}>
-            <label className="label">月份</label>
-            {isYearAll ? (
-              <div className="select select--placeholder" aria-hidden="true"><span>--</span></div>
-            ) : (
-              <select
-                className="select"
-                value={month}
-                onChange={e => setMonth(e.target.value)}
-              >
-                <option value="ALL">全年</option>
-                {months.map(m => (
-                  <option key={m} value={m}>{dayjs(`${m}-01`).isValid() ? dayjs(`${m}-01`).format("MM 月") : m}</option>
-                ))}
-              </select>
+          <RangePicker value={rangeSelection} range={dateRange} dates={trendDates} onChange={setRangeSelection} />
+          <ComparePicker value={compare} range={dateRange} baseline={baselineRange} onChange={setCompare} />
+          {calls.length > 0 && (
+            <>
+              <MultiSelect
+                label="模組"
+                options={moduleOptions}
+                selected={crossFilter.modules}
+                favorites={favorites.modules}
+                onChange={values => setCrossValues("modules", values)}
+                onToggleFavorite={name => toggleFavorite("modules", name)}
+              />
+              <MultiSelect
+                label="分類"
+                options={categoryOptions}
+                selected={crossFilter.categories}
+                favorites={favorites.categories}
+                onChange={values => setCrossValues("categories", values)}
+                onToggleFavorite={name => toggleFavorite("categories", name)}
+              />
+            </>
+          )}
+          {oldestCachedAt != null && (
+            <span className={`cache-badge${cacheRefreshing ? " cache-badge--refreshing" : ""}`}>
+              快取於 {dayjs(oldestCachedAt).format("HH:mm")}{cacheRefreshing ? "，更新中…" : "，無法連線更新"}
+            </span>
+          )}
+          {changes && (
+            <span className="refresh-notice" role="status">
+              自 {dayjs(changes.since).format("HH:mm")} 起
+              {[
+                changes.newCalls ? `新增 ${formatNumber(changes.newCalls)} 筆案件` : null,
+                changes.newDays ? `新增 ${formatNumber(changes.newDays)} 天資料` : null,
+                changes.changedDays ? `${formatNumber(changes.changedDays)} 天件數更新` : null,
+              ].filter(Boolean).join("、")}
+              <button className="btn btn--link" onClick={dismissChanges}>知道了</button>
+            </span>
+          )}
+          <button className="btn" onClick={copyLink}>{linkCopied ? "已複製連結" : "複製連結"}</button>
+          <button className="btn" onClick={() => setQualityPanelOpen(true)}>資料品質</button>
+          <button className="btn" onClick={() => setSourcePanelOpen(true)}>資料來源</button>
+        </div>
+        {crossActive && (
+          <div className="filter-chips">
+            <span className="label">篩選</span>
+            {crossFilter.modules.map(name => (
+              <span key={`module-${name}`} className="filter-chip">
+                模組：{name}
+                <button className="btn btn--link" onClick={() => setDrawerState({ type: "module", name })} disabled={!calls.length}>明細</button>
+                <button className="filter-chip__remove" aria-label={`移除模組 ${name}`} onClick={() => toggleCrossFilter("modules", name)}>×</button>
+              </span>
+            ))}
+            {crossFilter.categories.map(name => (
+              <span key={`category-${name}`} className="filter-chip">
+                分類：{name}
+                <button className="filter-chip__remove" aria-label={`移除分類 ${name}`} onClick={() => toggleCrossFilter("categories", name)}>×</button>
+              </span>
+            ))}
+            {crossFilter.weekdays.map(day => (
+              <span key={`weekday-${day}`} className="filter-chip">
+                星期：{WEEKDAY_LABELS[day]}
+                <button className="filter-chip__remove" aria-label={`移除${WEEKDAY_LABELS[day]}`} onClick={() => toggleCrossFilter("weekdays", day)}>×</button>
+              </span>
+            ))}
+            <button className="btn btn--link" onClick={clearCrossFilter}>清除全部</button>
+            {!calls.length && (crossFilter.modules.length > 0 || crossFilter.categories.length > 0) && (
+              <span className="card-source__warning">未載入{DATASET_LABELS.calls}，模組與分類篩選無法套用到趨勢與 KPI</span>
             )}
           </div>
-        </div>
+        )}
       </div>
 
       {/* KPI 區：桌面 5 欄、平板 3 欄、手機 1 欄 */}
       <section className="kpi-grid">
-        <Kpi
-          label={totalLabel}
-          value={monthTotalCount}
-          detail={rangeLabel || (filteredTrend.length ? `共 ${filteredTrend.length} 日` : null)}
-        />
-        <Kpi
-          label="平均處理時長(分)"
-          value={typeof avgDurationStat.value === "number" ? Number(avgDurationStat.value.toFixed(2)) : "-"}
-          detail={avgDurationStat.detail}
-        />
-        <Kpi
-          label="平均每日件數"
-          value={averageDailyCount ?? "-"}
-          detail={averageDailyDetail}
-        />
+        <CardStatus status={status} datasets={["trend"]} compact>
+          <Kpi
+            label={totalLabel}
+            value={monthTotalCount}
+            detail={rangeLabel || (filteredTrend.length ? `共 ${filteredTrend.length} 日` : null)}
+            change={kpiChanges.total}
+            compareLabel={compareLabel}
+          />
+        </CardStatus>
+        {monthForecast && (
+          <CardStatus status={status} datasets={["trend"]} compact>
+            <Kpi
+              label={`${dayjs(`${forecastMonth}-01`).format("YYYY 年 MM 月")}預估總件數`}
+              value={Math.round(monthForecast.total)}
+              detail={`已發生 ${formatNumber(monthForecast.actual)} 件＋預測 ${formatNumber(Math.round(monthForecast.predicted))} 件（95% 區間 ${formatNumber(Math.round(monthForecast.lower))}–${formatNumber(Math.round(monthForecast.upper))}）`}
+            />
+          </CardStatus>
+        )}
+        <CardStatus status={status} datasets={["avgCallDuration"]} compact>
+          <Kpi
+            label="平均處理時長(分)"
+            value={typeof avgDurationStat.value === "number" ? Number(avgDurationStat.value.toFixed(2)) : "-"}
+            detail={avgDurationStat.detail}
+            change={durationChange}
+            compareLabel={compareLabel}
+            digits={2}
+            lowerIsBetter
+          />
+        </CardStatus>
+        <CardStatus status={status} datasets={["trend"]} compact>
+          <Kpi
+            label="平均每工作日件數"
+            value={averageDailyCount ?? "-"}
+            detail={averageDailyDetail}
+            change={kpiChanges.daily}
+            compareLabel={compareLabel}
+            digits={1}
+          />
+        </CardStatus>
+        <CardStatus status={status} datasets={["calls"]} compact computing={callsViewLoading && slaRules.length > 0}>
+          <Kpi
+            label="SLA 達成率(%)"
+            value={slaSummary?.rate != null ? Number(slaSummary.rate.toFixed(1)) : "-"}
+            detail={
+              !slaRules.length ? (
+                <button className="btn btn--link" onClick={() => setSlaPanelOpen(true)}>設定 SLA 規則</button>
+              ) : slaSummary ? (
+                <>
+                  {formatNumber(slaSummary.evaluated)} 件中 {formatNumber(slaSummary.breaches.length)} 件逾時
+                  {slaSummary.breaches.length > 0 && (
+                    <button className="btn btn--link" onClick={() => setDrawerState({ type: "sla" })}>查看</button>
+                  )}
+                </>
+              ) : null
+            }
+            change={slaChange}
+            compareLabel={compareLabel}
+            digits={1}
+          />
+        </CardStatus>
       </section>
 
       {/* 圖表網格：桌面兩欄 */}
@@ -1117,52 +945,174 @@ export default function Dashboard() {
           <div className="card-head">
             <div className="card-title">重點觀察</div>
           </div>
-          <div className="insights">
-            {insights.length ? (
-              <ul className="insights-list">
-                {insights.map((text, idx) => <li key={idx}>{text}</li>)}
-              </ul>
-            ) : (
-              <div className="empty">尚無足夠資料</div>
-            )}
-          </div>
+          <CardStatus status={status} datasets={["trend"]} compact>
+            <div className="insights">
+              {insights.length ? (
+                <ul className="insights-list">
+                  {insights.map((text, idx) => <li key={idx}>{text}</li>)}
+                </ul>
+              ) : (
+                <div className="empty">尚無足夠資料</div>
+              )}
+              {anomalies.length > 0 && (
+                <div className="anomaly-list">
+                  <div className="anomaly-list__title">異常日（{formatNumber(anomalies.length)} 天，敏感度{SENSITIVITY_LABELS[anomalySensitivity]}）</div>
+                  <ul className="insights-list">
+                    {[...anomalies]
+                      .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+                      .slice(0, 5)
+                      .map(item => (
+                        <li key={item.date}>
+                          <button
+                            className="btn btn--link"
+                            onClick={() => setDrawerState({ type: "day", date: item.date })}
+                            disabled={!calls.length}
+                          >
+                            {dayjs(item.date).format("YYYY/MM/DD")}（{WEEKDAY_LABELS[dayjs(item.date).day()]}）
+                          </button>
+                          {formatNumber(item.count)} 件，同星期幾中位數 {formatNumber(item.expected)} 件
+                          {item.expected ? `（${formatPercent(((item.count - item.expected) / item.expected) * 100, 0)}）` : ""}
+                          {item.score > 0 ? "偏高" : "偏低"}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </CardStatus>
         </div>
         {/* 日趨勢（件數） */}
         <div className="card" ref={trendRef}>
           <div className="card-head">
             <div className="card-title">日趨勢（件數）{rangeLabel ? ` - ${rangeLabel}` : ""}</div>
             <div className="actions">
-              <button className="btn" onClick={() => png(trendRef, `trend-${exportKey}.png`)}>匯出 PNG</button>
+              <label className="tool-actions">
+                <span className="label">異常偵測</span>
+                <select
+                  className="select select--compact"
+                  value={anomalySensitivity}
+                  onChange={e => setAnomalySensitivity(e.target.value as AnomalySensitivity)}
+                >
+                  {(Object.keys(SENSITIVITY_LABELS) as AnomalySensitivity[]).map(key => (
+                    <option key={key} value={key}>{key === "off" ? "關閉" : `敏感度${SENSITIVITY_LABELS[key]}`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="tool-actions">
+                <span className="label">預測</span>
+                <select
+                  className="select select--compact"
+                  value={forecastDays}
+                  onChange={e => setForecastDays(Number(e.target.value))}
+                >
+                  {FORECAST_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days ? `未來 ${days} 天` : "不預測"}</option>
+                  ))}
+                </select>
+              </label>
+              <button className="btn" onClick={() => downloadPng(`trend-${exportKey}.png`, trendRef.current)}>匯出 PNG</button>
               <button
                 className="btn"
-                onClick={() => download(`trend-${exportKey}.csv`, new Blob([toCsv(trendRows)], { type: "text/csv;charset=utf-8" }))}
+                onClick={() => download(`trend-${exportKey}.csv`, new Blob([toCsv(trendChartRows)], { type: "text/csv;charset=utf-8" }))}
                 disabled={!trendRows.length}
               >
                 匯出 CSV
               </button>
             </div>
           </div>
-          <div className="chart">
-            <ResponsiveContainer>
-              <LineChart data={trendRows}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" minTickGap={24} tickFormatter={dateTickFormatter} />
-                <YAxis allowDecimals={false} />
-                <Tooltip labelFormatter={tooltipLabelFormatter} />
-                <Legend />
-                <Line type="monotone" dataKey="count" name="每日件數" dot={false} strokeWidth={2} />
-                <Line type="monotone" dataKey="ma7"   name="MA7" dot={false} strokeWidth={1} strokeDasharray="5 3" />
-                <Line type="monotone" dataKey="ma30"  name="MA30" dot={false} strokeWidth={1} strokeDasharray="2 4" />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+          <CardStatus status={status} datasets={["trend"]}>
+            <div className="chart">
+              <ResponsiveContainer>
+                <ComposedChart
+                  data={trendChartRows}
+                  barCategoryGap={0}
+                  onClick={state => {
+                    // 點選異常日開啟當天的案件明細
+                    const date = String(state?.activeLabel ?? "");
+                    if (calls.length && anomalyByDate.has(date)) setDrawerState({ type: "day", date });
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" minTickGap={24} tickFormatter={dateTickFormatter} />
+                  <YAxis allowDecimals={false} />
+                  <YAxis yAxisId="calendar" domain={[0, 1]} hide />
+                  <Tooltip
+                    labelFormatter={tooltipLabelFormatter}
+                    formatter={(value, name, item) => (item?.dataKey === "holiday" ? [item.payload?.holidayName ?? "", name] : [value, name])}
+                  />
+                  <Legend />
+                  {hasHolidays && (
+                    <Bar
+                      yAxisId="calendar"
+                      dataKey="holiday"
+                      name="國定假日"
+                      fill="#fde68a"
+                      fillOpacity={0.5}
+                      legendType="square"
+                      isAnimationActive={false}
+                    />
+                  )}
+                  <Line type="monotone" dataKey="count" name="每日件數" dot={false} strokeWidth={2} />
+                  {anomalies.length > 0 && (
+                    <Line
+                      dataKey="anomaly"
+                      name="異常日"
+                      stroke="none"
+                      legendType="circle"
+                      dot={{ r: 5, fill: "#ef4444", stroke: "#ef4444", cursor: "pointer" }}
+                      activeDot={{ r: 7, fill: "#ef4444", cursor: "pointer" }}
+                      isAnimationActive={false}
+                    />
+                  )}
+                  {compareLabel && (
+                    <Line type="monotone" dataKey="baseline" name={compareLabel} dot={false} strokeWidth={1.5} stroke="#94a3b8" connectNulls />
+                  )}
+                  <Line type="monotone" dataKey="ma7"   name="MA7" dot={false} strokeWidth={1} strokeDasharray="5 3" />
+                  <Line type="monotone" dataKey="ma30"  name="MA30" dot={false} strokeWidth={1} strokeDasharray="2 4" />
+                  {forecastPoints.length > 0 && (
+                    <Area
+                      type="monotone"
+                      dataKey="forecastBand"
+                      name="95% 預測區間"
+                      stroke="none"
+                      fill="#a78bfa"
+                      fillOpacity={0.25}
+                      isAnimationActive={false}
+                    />
+                  )}
+                  {forecastPoints.length > 0 && (
+                    <Line type="monotone" dataKey="forecast" name="預測" dot={false} strokeWidth={2} stroke="#7c3aed" strokeDasharray="4 4" />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </CardStatus>
+          {forecastActive && (
+            <div className="card-source">
+              {forecastBacktest?.months.length ? (
+                <>
+                  回測（Holt-Winters，近 {forecastBacktest.months.length} 個完整月份）：每日誤差 WAPE {forecastBacktest.wape?.toFixed(1) ?? "-"}%；
+                  {forecastBacktest.months.map(item => (
+                    <span key={item.month}>
+                      {item.month} 預測 {formatNumber(Math.round(item.forecast))} / 實際 {formatNumber(item.actual)}
+                      {item.actual ? `（${formatPercent(((item.forecast - item.actual) / item.actual) * 100)}）` : ""}
+                    </span>
+                  ))}
+                </>
+              ) : forecastPoints.length ? (
+                "歷史資料不足，無法回測"
+              ) : (
+                "至少需要四週的每日資料才能預測"
+              )}
+            </div>
+          )}
         </div>
         {/* 分類堆疊面積圖 */}
         <div className="card" ref={categoryRef}>
           <div className="card-head">
-            <div className="card-title">分類堆疊面積圖{rangeLabel ? ` - ${rangeLabel}` : ""}</div>
+            <div className="card-title">分類堆疊面積圖{rangeLabel ? ` - ${rangeLabel}` : ""}{!sheetCategoryStack && callsViewPending && callsView && <span className="card-loading__spinner card-title__spinner" role="status" aria-label="重新計算中" />}</div>
             <div className="actions">
-              <button className="btn" onClick={() => png(categoryRef, `category-stack-${exportKey}.png`)} disabled={!categoryStackData.length}>匯出 PNG</button>
+              <button className="btn" onClick={() => downloadPng(`category-stack-${exportKey}.png`, categoryRef.current)} disabled={!categoryStackData.length}>匯出 PNG</button>
               <button
                 className="btn"
                 onClick={() => download(`category-stack-${exportKey}.csv`, new Blob([toCsv(categoryStackData)], { type: "text/csv;charset=utf-8" }))}
@@ -1172,38 +1122,67 @@ export default function Dashboard() {
               </button>
             </div>
           </div>
-          <div className="chart">
-            {categoryStackData.length && categoryStackKeys.length ? (
-              <ResponsiveContainer>
-                <AreaChart data={categoryStackData}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="period" tickFormatter={categoryXAxisFormatter} />
-                  <YAxis allowDecimals={false} />
-                  <Tooltip
-                    labelFormatter={categoryTooltipLabelFormatter}
-                    formatter={(value: any, name) => [formatNumber(Number(value) || 0), name]}
-                  />
-                  <Legend />
-                  {categoryStackKeys.map(key => {
-                    const color = categoryColorMap.get(key) ?? CATEGORY_COLOR_PALETTE[0];
-                    return (
-                      <Area
-                        key={key}
-                        type="monotone"
-                        dataKey={key}
-                        name={key}
-                        stackId="categories"
-                        stroke={color}
-                        fill={color}
-                        fillOpacity={0.75}
-                        dot={false}
-                      />
-                    );
-                  })}
-                </AreaChart>
-              </ResponsiveContainer>
-            ) : (
-              <div className="empty">尚無足夠資料</div>
+          <CardStatus
+            status={status}
+            datasets={sheetCategoryStack ? ["categoryTrend"] : ["calls"]}
+            computing={!sheetCategoryStack && callsViewLoading}
+          >
+            <div className="chart">
+              {categoryStackData.length && categoryStackKeys.length ? (
+                <ResponsiveContainer>
+                  <AreaChart data={categoryStackData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" tickFormatter={categoryXAxisFormatter} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip
+                      labelFormatter={categoryTooltipLabelFormatter}
+                      formatter={(value, name) => [formatNumber(Number(value) || 0), name]}
+                    />
+                    <Legend
+                      onClick={entry => entry.value && toggleCrossFilter("categories", String(entry.value))}
+                      wrapperStyle={{ cursor: "pointer" }}
+                    />
+                    {categoryStackKeys.map(key => {
+                      const color = categoryColorMap.get(key) ?? CATEGORY_COLOR_PALETTE[0];
+                      return (
+                        <Area
+                          key={key}
+                          type="monotone"
+                          dataKey={key}
+                          name={key}
+                          stackId="categories"
+                          stroke={color}
+                          fill={color}
+                          fillOpacity={0.75}
+                          dot={false}
+                          onClick={() => toggleCrossFilter("categories", key)}
+                          style={{ cursor: "pointer" }}
+                        />
+                      );
+                    })}
+                  </AreaChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="empty">尚無足夠資料</div>
+              )}
+            </div>
+          </CardStatus>
+          <div className="card-source">
+            {sheetCategoryStack ? `資料來源：${DATASET_LABELS.categoryTrend}表` : `由${DATASET_LABELS.calls}計算（前 5 大分類）`}
+            {crossActive && status.categoryTrend.enabled && <span>（套用篩選時不使用{DATASET_LABELS.categoryTrend}表）</span>}
+            {!crossActive && status.categoryTrend.enabled && !sheetCategoryStack && (
+              <>
+                <span className="card-source__warning">{DATASET_LABELS.categoryTrend}載入失敗，暫以明細計算</span>
+                <button className="btn btn--link" onClick={status.categoryTrend.retry} disabled={status.categoryTrend.refreshing}>重試</button>
+              </>
+            )}
+            {categoryMismatches.length > 0 && (
+              <>
+                <span className="card-source__warning">
+                  與案件明細有 {formatNumber(new Set(categoryMismatches.map(row => row.date)).size)} 日件數不一致
+                </span>
+                <button className="btn btn--link" onClick={() => setQualityPanelOpen(true)}>查看資料品質</button>
+              </>
             )}
           </div>
         </div>
@@ -1212,7 +1191,8 @@ export default function Dashboard() {
           <div className="card-head">
             <div className="card-title">週期節奏（平均每日件數）</div>
             <div className="actions">
-              <button className="btn" onClick={() => png(weekdayRef, `weekday-pattern-${exportKey}.png`)} disabled={!weekdayChartData.length}>匯出 PNG</button>
+              <button className="btn" onClick={() => setCalendarPanelOpen(true)}>工作日曆</button>
+              <button className="btn" onClick={() => downloadPng(`weekday-pattern-${exportKey}.png`, weekdayRef.current)} disabled={!weekdayChartData.length}>匯出 PNG</button>
               <button
                 className="btn"
                 onClick={() => download(`weekday-pattern-${exportKey}.csv`, new Blob([toCsv(weekdayChartData)], { type: "text/csv;charset=utf-8" }))}
@@ -1222,215 +1202,533 @@ export default function Dashboard() {
               </button>
             </div>
           </div>
-          <div className="chart">
-            <ResponsiveContainer>
-              <BarChart data={weekdayChartData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
-                <YAxis allowDecimals />
-                <Tooltip formatter={(value: any) => [`${Number(value).toFixed(1)} 件`, "平均每日"]} />
-                <Bar dataKey="average" name="平均每日件數" />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+          <CardStatus status={status} datasets={["trend"]}>
+            <div className="chart">
+              <ResponsiveContainer>
+                <BarChart data={weekdayChartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis allowDecimals />
+                  <Tooltip formatter={(value) => [`${Number(value).toFixed(1)} 件`, "平均每日"]} />
+                  <Bar
+                    dataKey="average"
+                    name="平均每日件數"
+                    onClick={data => {
+                      const day = WEEKDAY_LABELS.indexOf(String(data?.payload?.name ?? ""));
+                      if (day >= 0) toggleCrossFilter("weekdays", day);
+                    }}
+                    style={{ cursor: "pointer" }}
+                  >
+                    {weekdayChartData.map(row => (
+                      <Cell
+                        key={row.name}
+                        fill={row.name === HOLIDAY_BAR ? "#f59e0b" : row.name === MAKEUP_BAR ? "#94a3b8" : undefined}
+                        fillOpacity={crossFilter.weekdays.length && !crossFilter.weekdays.includes(WEEKDAY_LABELS.indexOf(row.name)) ? 0.35 : 1}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardStatus>
         </div>
-        <div className="card" ref={durationRef}>
+        <div className="card" ref={heatmapRef}>
           <div className="card-head">
-            <div className="card-title">處理時間分佈（分鐘）{rangeLabel ? ` - ${rangeLabel}` : ""}</div>
+            <div className="card-title">
+              時段熱度（星期 × 小時）{rangeLabel ? ` - ${rangeLabel}` : ""}
+              {callsViewPending && callsView && <span className="card-loading__spinner card-title__spinner" role="status" aria-label="重新計算中" />}
+            </div>
             <div className="actions">
-              <button className="btn" onClick={() => png(durationRef, `resolve-distribution-${exportKey}.png`)} disabled={!durationChart.rows.length}>匯出 PNG</button>
+              <select
+                className="select select--compact"
+                aria-label="熱度圖數值"
+                value={heatmapMetric}
+                onChange={e => setHeatmapMetric(e.target.value as HeatmapMetric)}
+              >
+                <option value="average">平均每日件數</option>
+                <option value="total">合計件數</option>
+              </select>
+              <button className="btn" onClick={() => downloadPng(`hour-heatmap-${exportKey}.png`, heatmapRef.current)} disabled={!heatmapRows.length}>匯出 PNG</button>
               <button
                 className="btn"
-                onClick={() => download(`resolve-distribution-${exportKey}.csv`, new Blob([toCsv(durationChart.csvRows)], { type: "text/csv;charset=utf-8" }))}
-                disabled={!durationChart.rows.length}
+                onClick={() => downloadCsv(`hour-heatmap-${exportKey}.csv`, heatmapRows)}
+                disabled={!heatmapRows.length}
               >
                 匯出 CSV
               </button>
             </div>
           </div>
-          <div className="card-toolbar" style={{ display: "flex", flexWrap: "wrap", gap: "10px", marginBottom: "12px" }}>
-            <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
-              <span>顯示</span>
+          <CardStatus status={status} datasets={["calls"]} computing={callsViewLoading}>
+            {volumeProfile.hourly ? (
+              <HourHeatmap
+                profile={volumeProfile}
+                metric={heatmapMetric}
+                onSelect={(weekday, hour) => setDrawerState({ type: "hour", weekday, hour })}
+              />
+            ) : (
+              <div className="empty">call_time 沒有時間資料，無法依小時拆分</div>
+            )}
+          </CardStatus>
+        </div>
+        <div className="card" ref={durationRef}>
+          <div className="card-head">
+            <div className="card-title">處理時間分佈（分鐘）{rangeLabel ? ` - ${rangeLabel}` : ""}{callsViewPending && callsView && <span className="card-loading__spinner card-title__spinner" role="status" aria-label="重新計算中" />}</div>
+            <div className="actions">
+              <button className="btn" onClick={() => downloadPng(`resolve-distribution-${exportKey}.png`, durationRef.current)} disabled={!durationChart.rows.length}>匯出 PNG</button>
               <button
                 className="btn"
-                style={durationMetric === "count" ? toggleActiveStyle : undefined}
-                onClick={() => setDurationMetric("count")}
+                onClick={() => download(`resolve-distribution-${exportKey}.csv`, new Blob([toCsv(durationChart.csvRows)], { type: "text/csv;charset=utf-8" }))}
+                disabled={!durationChart.rows.length}
               >
-                件數
+                匯出 CSV
               </button>
               <button
                 className="btn"
-                style={durationMetric === "percentage" ? toggleActiveStyle : undefined}
-                onClick={() => setDurationMetric("percentage")}
+                onClick={() => downloadCsv(`resolve-percentiles-${exportKey}.csv`, percentileRows)}
+                disabled={!percentileRows.length}
               >
-                佔比
+                匯出百分位 CSV
               </button>
             </div>
+          </div>
+          <div className="card-toolbar" style={{ display: "flex", flexWrap: "wrap", gap: "10px", marginBottom: "12px" }}>
             <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
-              <span>分箱</span>
-              <button
-                className="btn"
-                style={durationBinMode === "auto" ? toggleActiveStyle : undefined}
-                onClick={() => setDurationBinMode("auto")}
-              >
-                自動
-              </button>
-              <button
-                className="btn"
-                style={durationBinMode === "fixed" ? toggleActiveStyle : undefined}
-                onClick={() => setDurationBinMode("fixed")}
-              >
-                固定
-              </button>
+              <span>檢視</span>
+              {(Object.keys(DURATION_VIEW_LABELS) as DurationView[]).map(key => (
+                <button
+                  key={key}
+                  className="btn"
+                  style={durationView === key ? toggleActiveStyle : undefined}
+                  onClick={() => setDurationView(key)}
+                >
+                  {DURATION_VIEW_LABELS[key]}
+                </button>
+              ))}
+            </div>
+            {durationView === "histogram" && (
+              <>
+                <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+                  <span>顯示</span>
+                  <button
+                    className="btn"
+                    style={durationMetric === "count" ? toggleActiveStyle : undefined}
+                    onClick={() => setDuration({ metric: "count" })}
+                  >
+                    件數
+                  </button>
+                  <button
+                    className="btn"
+                    style={durationMetric === "percentage" ? toggleActiveStyle : undefined}
+                    onClick={() => setDuration({ metric: "percentage" })}
+                  >
+                    佔比
+                  </button>
+                </div>
+                <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+                  <span>分箱</span>
+                  <button
+                    className="btn"
+                    style={durationBinMode === "auto" ? toggleActiveStyle : undefined}
+                    onClick={() => setDuration({ binMode: "auto" })}
+                  >
+                    自動
+                  </button>
+                  <button
+                    className="btn"
+                    style={durationBinMode === "fixed" ? toggleActiveStyle : undefined}
+                    onClick={() => setDuration({ binMode: "fixed" })}
+                  >
+                    固定
+                  </button>
+                  <button
+                    className="btn"
+                    style={durationBinMode === "log" ? toggleActiveStyle : undefined}
+                    onClick={() => setDuration({ binMode: "log" })}
+                  >
+                    對數
+                  </button>
+                  <button
+                    className="btn"
+                    style={durationBinMode === "custom" ? toggleActiveStyle : undefined}
+                    onClick={() => (durationCuts.length ? setDuration({ binMode: "custom" }) : setBinEditorOpen(true))}
+                  >
+                    自訂
+                  </button>
+                  {durationBinMode === "custom" && (
+                    <button className="btn btn--link" onClick={() => setBinEditorOpen(true)}>編輯</button>
+                  )}
+                </div>
+              </>
+            )}
+            <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+              <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+                <input
+                  type="checkbox"
+                  checked={durationFocus != null}
+                  onChange={(e) => setDuration({ focus: e.target.checked ? DEFAULT_DURATION_FOCUS : null })}
+                />
+                聚焦
+              </label>
+              {durationFocus && (
+                <>
+                  <input
+                    className="source-row__input duration-focus__input"
+                    type="number"
+                    min={0}
+                    aria-label="聚焦下限（分）"
+                    value={durationFocus.min}
+                    onChange={(e) => {
+                      const min = Number(e.target.value);
+                      if (Number.isFinite(min) && min >= 0 && min < durationFocus.max) setDuration({ focus: { ...durationFocus, min } });
+                    }}
+                  />
+                  <span>–</span>
+                  <input
+                    className="source-row__input duration-focus__input"
+                    type="number"
+                    min={1}
+                    aria-label="聚焦上限（分）"
+                    value={durationFocus.max}
+                    onChange={(e) => {
+                      const max = Number(e.target.value);
+                      if (Number.isFinite(max) && max > durationFocus.min) setDuration({ focus: { ...durationFocus, max } });
+                    }}
+                  />
+                  <span>分</span>
+                </>
+              )}
             </div>
-            <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
-              <input
-                type="checkbox"
-                checked={durationFocus30}
-                onChange={(e) => setDurationFocus30(e.target.checked)}
-              />
-              聚焦 0-30 分
-            </label>
             <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
               <span>篩選</span>
               <select
                 className="select"
                 value={durationGroupBy}
-                onChange={(e) => setDurationGroupBy(e.target.value as DurationGroupBy)}
+                onChange={(e) => setDuration({ groupBy: e.target.value as DurationGroupBy })}
               >
                 <option value="none">全部</option>
                 <option value="category">分類</option>
                 <option value="module">模組</option>
               </select>
               {durationGroupBy !== "none" && (
-                <select
-                  className="select"
-                  value={durationGroupSelection}
-                  onChange={(e) => setDurationGroupSelection(e.target.value)}
-                >
-                  <option value="ALL">全部</option>
-                  {durationFilterOptions.map(option => (
-                    <option key={option} value={option}>{option}</option>
-                  ))}
-                </select>
+                <MultiSelect
+                  label={durationGroupBy === "category" ? "分類" : "模組"}
+                  options={durationGroupBy === "category" ? categoryOptions : moduleOptions}
+                  selected={crossFilter[durationFilterKey]}
+                  favorites={favorites[durationFilterKey]}
+                  onChange={values => setCrossValues(durationFilterKey, values)}
+                  onToggleFavorite={name => toggleFavorite(durationFilterKey, name)}
+                />
               )}
             </div>
-            {durationGroupBy !== "none" && (
+            {durationView === "histogram" && durationGroupBy !== "none" && (
               <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
                 <input
                   type="checkbox"
                   checked={durationFacetEnabled && canFacet}
-                  onChange={(e) => setDurationFacetEnabled(e.target.checked && canFacet)}
+                  onChange={(e) => setDuration({ facet: e.target.checked && canFacet })}
                   disabled={!canFacet}
                 />
                 Facet 比較
               </label>
             )}
           </div>
-          <div className="chart">
-            {durationChart.rows.length ? (
-              <ResponsiveContainer>
-                <BarChart data={durationChart.rows}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="label" />
-                  <YAxis
-                    allowDecimals={durationMetric === "percentage"}
-                    tickFormatter={(value) => durationMetric === "percentage" ? `${value}%` : formatNumber(Number(value) || 0)}
-                  />
-                  <Tooltip
-                    labelFormatter={(label) => label}
-                    formatter={(_value: any, dataKey: any, props: any) => {
-                      const key = String(dataKey);
-                      const payload = props?.payload ?? {};
-                      const counts = (payload.__counts as Record<string, number> | undefined) ?? {};
-                      const percents = (payload.__percents as Record<string, number> | undefined) ?? {};
-                      const count = counts[key] ?? 0;
-                      const percent = percents[key] ?? 0;
-                      const percentDisplay = Number.isFinite(percent) ? Number(percent.toFixed(1)) : 0;
-                      const displayName = durationChart.groupDisplay.get(key) ?? key;
-                      if (durationMetric === "count") {
-                        return [formatNumber(count), displayName];
-                      }
-                      return [`${percentDisplay}%`, `${displayName}（${formatNumber(count)} 件）`];
-                    }}
-                  />
-                  <Legend />
-                  {durationChart.medianLabel && durationMedianDisplay && (
-                    <ReferenceLine
-                      x={durationChart.medianLabel}
-                      stroke="#ef4444"
-                      strokeDasharray="6 6"
-                      label={{ value: `中位數 ${durationMedianDisplay} 分`, position: "insideTop", fill: "#ef4444", fontSize: 12 }}
+          <CardStatus status={status} datasets={["calls"]} computing={callsViewLoading}>
+            <div className="chart">
+              {durationView === "cdf" && durationStats.cdf.length ? (
+                <ResponsiveContainer>
+                  <LineChart data={durationStats.cdf}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="minutes" type="number" domain={[0, "dataMax"]} tickFormatter={(value) => `${value} 分`} />
+                    <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                    <Tooltip
+                      labelFormatter={(label) => `${label} 分鐘內處理完成`}
+                      formatter={(value, name) => [`${value}%`, name]}
                     />
-                  )}
-                  {durationChart.meanLabel && durationMeanDisplay && (
-                    <ReferenceLine
-                      x={durationChart.meanLabel}
-                      stroke="#0ea5e9"
-                      strokeDasharray="4 4"
-                      label={{ value: `平均 ${durationMeanDisplay} 分`, position: "insideBottom", fill: "#0ea5e9", fontSize: 12 }}
+                    <Legend />
+                    {durationChart.slaLines.flatMap(line => line.minutes).map(minutes => (
+                      <ReferenceLine
+                        key={minutes}
+                        x={minutes}
+                        stroke="#16a34a"
+                        strokeDasharray="2 4"
+                        label={{ value: `SLA ${minutes} 分`, position: "insideTopRight", fill: "#16a34a", fontSize: 12 }}
+                      />
+                    ))}
+                    {durationStats.groups.map(row => (
+                      <Line
+                        key={row.key}
+                        type="stepAfter"
+                        dataKey={row.key}
+                        name={row.name}
+                        stroke={row.color}
+                        strokeWidth={row.key === "__all" ? 2 : 1.5}
+                        strokeDasharray={row.key === DURATION_BASELINE_KEY ? "4 4" : undefined}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : durationView === "box" && boxRows.length ? (
+                <ResponsiveContainer>
+                  <BarChart data={boxRows}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" interval={0} angle={-10} textAnchor="end" height={58} />
+                    <YAxis tickFormatter={(value) => `${value} 分`} />
+                    <Tooltip
+                      formatter={(_value, _name, item) => {
+                        const row = item?.payload as DurationStatRow | undefined;
+                        if (!row) return ["", ""];
+                        return [
+                          `P25 ${row.q1.toFixed(1)}／中位數 ${row.median.toFixed(1)}／P75 ${row.q3.toFixed(1)}；鬚 ${row.whiskerLow.toFixed(1)}–${row.whiskerHigh.toFixed(1)}，離群 ${formatNumber(row.outliers)} 件`,
+                          `處理時間(分)，${formatNumber(row.count)} 件`,
+                        ];
+                      }}
                     />
-                  )}
-                  {durationChart.seriesKeys.map(key => (
-                    <Bar
-                      key={key}
-                      dataKey={key}
-                      name={durationChart.groupDisplay.get(key) ?? key}
-                      fill={durationChart.colorMap.get(key) ?? CATEGORY_COLOR_PALETTE[0]}
-                      onClick={(data) => handleDurationBarClick(data, key)}
-                      cursor="pointer"
+                    {durationChart.slaLines.flatMap(line => line.minutes).map(minutes => (
+                      <ReferenceLine
+                        key={minutes}
+                        y={minutes}
+                        stroke="#16a34a"
+                        strokeDasharray="2 4"
+                        label={{ value: `SLA ${minutes} 分`, position: "insideTopRight", fill: "#16a34a", fontSize: 12 }}
+                      />
+                    ))}
+                    <Bar dataKey="range" shape={(props: unknown) => <BoxShape {...(props as BoxShapeProps)} />} isAnimationActive={false} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : durationView === "histogram" && durationChart.rows.length ? (
+                <ResponsiveContainer>
+                  <BarChart data={durationChart.rows}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis
+                      allowDecimals={durationMetric === "percentage"}
+                      tickFormatter={(value) => durationMetric === "percentage" ? `${value}%` : formatNumber(Number(value) || 0)}
                     />
-                  ))}
-                </BarChart>
-              </ResponsiveContainer>
-            ) : (
-              <div className="empty">暫無資料</div>
+                    <Tooltip
+                      labelFormatter={(label) => label}
+                      formatter={(_value, dataKey, props) => {
+                        // 第二個參數是序列名稱（全部、比較期間），查表需用 dataKey
+                        const key = String(props?.dataKey ?? dataKey);
+                        const payload = (props?.payload ?? {}) as Partial<DurationChartRow>;
+                        const counts = payload.__counts ?? {};
+                        const percents = payload.__percents ?? {};
+                        const count = counts[key] ?? 0;
+                        const percent = percents[key] ?? 0;
+                        const percentDisplay = Number.isFinite(percent) ? Number(percent.toFixed(1)) : 0;
+                        const displayName = durationChart.groupDisplay.get(key) ?? key;
+                        if (durationMetric === "count") {
+                          return [formatNumber(count), displayName];
+                        }
+                        return [`${percentDisplay}%`, `${displayName}（${formatNumber(count)} 件）`];
+                      }}
+                    />
+                    <Legend />
+                    {durationChart.slaLines.map(line => (
+                      <ReferenceLine
+                        key={line.label}
+                        x={line.label}
+                        stroke="#16a34a"
+                        strokeDasharray="2 4"
+                        label={{ value: `SLA ${line.minutes.join(" / ")} 分`, position: "insideTopRight", fill: "#16a34a", fontSize: 12 }}
+                      />
+                    ))}
+                    {durationChart.medianLabel && durationMedianDisplay && (
+                      <ReferenceLine
+                        x={durationChart.medianLabel}
+                        stroke="#ef4444"
+                        strokeDasharray="6 6"
+                        label={{ value: `中位數 ${durationMedianDisplay} 分`, position: "insideTop", fill: "#ef4444", fontSize: 12 }}
+                      />
+                    )}
+                    {durationChart.meanLabel && durationMeanDisplay && (
+                      <ReferenceLine
+                        x={durationChart.meanLabel}
+                        stroke="#0ea5e9"
+                        strokeDasharray="4 4"
+                        label={{ value: `平均 ${durationMeanDisplay} 分`, position: "insideBottom", fill: "#0ea5e9", fontSize: 12 }}
+                      />
+                    )}
+                    {durationChart.seriesKeys.map(key => (
+                      <Bar
+                        key={key}
+                        dataKey={key}
+                        name={durationChart.groupDisplay.get(key) ?? key}
+                        fill={durationChart.colorMap.get(key) ?? CATEGORY_COLOR_PALETTE[0]}
+                        onClick={(data) => handleDurationBarClick(data, key)}
+                        cursor="pointer"
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="empty">暫無資料</div>
+              )}
+            </div>
+            {durationView !== "histogram" && durationStats.groups.length > 0 && (
+              <div className="data-table">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>{durationChart.groupLabel ?? "分組"}</th>
+                      <th>件數</th>
+                      <th>平均</th>
+                      {DURATION_PERCENTILES.map(p => <th key={p}>P{p}</th>)}
+                      <th>最大</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {durationStats.groups.map(row => (
+                      <tr key={row.key}>
+                        <td>{row.name}</td>
+                        <td>{formatNumber(row.count)}</td>
+                        <td>{row.mean.toFixed(1)}</td>
+                        {DURATION_PERCENTILES.map(p => <td key={p}>{row.percentiles[p].toFixed(1)}</td>)}
+                        <td>{row.max.toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             )}
-          </div>
+          </CardStatus>
           {durationChart.missingCount > 0 && (
             <div style={{ marginTop: "8px", fontSize: "12px", color: "#6b7280" }}>
               缺少處理時間資料：{formatNumber(durationChart.missingCount)} 筆
+              <button className="btn btn--link" style={{ marginLeft: "8px" }} onClick={() => setQualityPanelOpen(true)}>
+                查看資料品質
+              </button>
             </div>
           )}
         </div>
-        <div className="card" ref={topRef}>
+        <DurationTrendCard
+          trend={durationTrend}
+          reference={avgDurationSheet}
+          referenceUnfiltered={crossActive}
+          params={durationTrendParams}
+          onChange={setDurationTrend}
+          onSelectPeriod={period =>
+            setDrawerState(period.length === 7 ? { type: "month", month: period } : { type: "day", date: period })
+          }
+          status={status}
+          computing={callsViewLoading}
+          recomputing={callsViewPending && !!callsView}
+          rangeLabel={rangeLabel}
+          exportKey={exportKey}
+        />
+        {/* SLA 達成：月達成率與各模組逾時件數 */}
+        <div className="card" ref={slaRef}>
           <div className="card-head">
-            <div className="card-title">模組別 Top 5（件數）{rangeLabel ? ` - ${rangeLabel}` : ""}</div>
+            <div className="card-title">SLA 達成{rangeLabel ? ` - ${rangeLabel}` : ""}{slaRules.length > 0 && callsViewPending && callsView && <span className="card-loading__spinner card-title__spinner" role="status" aria-label="重新計算中" />}</div>
             <div className="actions">
-              <button className="btn" onClick={() => png(topRef, `module-top5-${exportKey}.png`)}>匯出 PNG</button>
+              <button className="btn" onClick={() => setSlaPanelOpen(true)}>規則設定</button>
+              <button className="btn" onClick={() => downloadPng(`sla-${exportKey}.png`, slaRef.current)} disabled={!slaMonthlyRows.length}>匯出 PNG</button>
               <button
                 className="btn"
-                onClick={() => download(`module-top5-${exportKey}.csv`, new Blob([toCsv(topRows)], { type: "text/csv;charset=utf-8" }))}
-                disabled={!topRows.length}
+                onClick={() => downloadCsv(`sla-monthly-${exportKey}.csv`, slaMonthlyRows)}
+                disabled={!slaMonthlyRows.length}
               >
                 匯出 CSV
               </button>
             </div>
           </div>
-          <div className="chart">
-            <ResponsiveContainer>
-              <BarChart data={topRows}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" interval={0} angle={-10} textAnchor="end" height={58} />
-                <YAxis allowDecimals={false} />
-                <Tooltip />
-                <Bar
-                  dataKey="value"
-                  name="案件數"
-                  onClick={(data) => {
-                    const moduleName = String(data?.name || data?.payload?.name || "");
-                    if (!moduleName) return;
-                    setDrawerState({ type: "module", name: moduleName });
-                  }}
-                  style={{ cursor: "pointer" }}
-                />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+          <CardStatus status={status} datasets={["calls"]} computing={callsViewLoading && slaRules.length > 0}>
+            {!slaRules.length ? (
+              <div className="empty">
+                尚未設定 SLA 規則
+                <button className="btn btn--link" onClick={() => setSlaPanelOpen(true)}>新增規則</button>
+              </div>
+            ) : slaMonthlyRows.length ? (
+              <div className="sla-charts">
+                <div className="chart chart--half">
+                  <ResponsiveContainer>
+                    <LineChart data={slaMonthlyRows}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                      <Tooltip formatter={(value) => [`${value}%`, "達成率"]} />
+                      <Line type="monotone" dataKey="rate" name="月達成率" stroke="#16a34a" strokeWidth={2} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="chart chart--half">
+                  {slaSummary?.byModule.length ? (
+                    <ResponsiveContainer>
+                      <BarChart data={slaSummary.byModule.slice(0, 10)}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="module" interval={0} angle={-10} textAnchor="end" height={58} />
+                        <YAxis allowDecimals={false} />
+                        <Tooltip formatter={(value) => [formatNumber(Number(value)), "逾時件數"]} />
+                        <Bar
+                          dataKey="breached"
+                          name="逾時件數"
+                          fill="#f43f5e"
+                          onClick={() => setDrawerState({ type: "sla" })}
+                          style={{ cursor: "pointer" }}
+                        />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  ) : (
+                    <div className="empty">目前期間沒有逾時案件</div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="empty">目前期間沒有適用規則的案件</div>
+            )}
+          </CardStatus>
         </div>
+        <StaffingCard
+          profile={volumeProfile}
+          status={status}
+          computing={callsViewLoading}
+          rangeLabel={rangeLabel}
+          exportKey={exportKey}
+        />
+        <ModuleRankingCard
+          ranking={moduleRanking}
+          moduleRows={moduleRows}
+          range={dateRange}
+          params={moduleRankParams}
+          onChange={setModuleRank}
+          compareLabel={compareLabel}
+          movementLabel={rankBaselineRange ? compareLabel ?? COMPARE_LABELS.previous : null}
+          selected={crossFilter.modules}
+          onToggle={name => toggleCrossFilter("modules", name)}
+          onOpen={calls.length ? name => setDrawerState({ type: "module", name }) : null}
+          status={status}
+          rangeLabel={rangeLabel}
+          partialMonths={!dateRange.monthAligned}
+          exportKey={exportKey}
+        />
       </section>
 
-      <footer className="footer">最後更新：{dayjs().format("YYYY-MM-DD HH:mm")}</footer>
+      <footer className="footer">
+        {DATASET_KEYS.map(key => {
+          const info = status[key];
+          if (!info.enabled) return null;
+          const time = info.lastSuccess != null ? dayjs(info.lastSuccess).format("YYYY-MM-DD HH:mm") : "尚未載入";
+          return (
+            <span key={key}>
+              {DATASET_LABELS[key]}：{time}{info.derived ? "（由案件明細計算）" : ""}{info.fromCache ? "（快取）" : ""}
+            </span>
+          );
+        })}
+      </footer>
+      {sourcePanelOpen && <DataSourcePanel onClose={() => setSourcePanelOpen(false)} />}
+      {qualityPanelOpen && <DataQualityPanel parsed={parsed} onClose={() => setQualityPanelOpen(false)} />}
+      {calendarPanelOpen && <CalendarPanel onClose={() => setCalendarPanelOpen(false)} />}
+      {binEditorOpen && (
+        <BinEditor
+          cuts={durationCuts}
+          onApply={cuts => setDuration({ binMode: "custom", cuts })}
+          onClose={() => setBinEditorOpen(false)}
+        />
+      )}
+      {slaPanelOpen && (
+        <SlaPanel categoryOptions={categoryOptions} moduleOptions={moduleOptions} onClose={() => setSlaPanelOpen(false)} />
+      )}
+      <FileImport />
       {drawerState && (
         <>
           <div
@@ -1450,7 +1748,17 @@ export default function Dashboard() {
               <h3 id="drawer-title">
                 {drawerState.type === "module"
                   ? `${drawerState.name} - 案件明細`
-                  : `${drawerState.label}${drawerState.groupLabel ? ` / ${drawerState.groupLabel}` : ""} - 案件明細`}
+                  : drawerState.type === "sla"
+                  ? "未達 SLA - 案件明細"
+                  : drawerState.type === "day"
+                  ? `${drawerState.date}（${WEEKDAY_LABELS[dayjs(drawerState.date).day()]}）- 案件明細`
+                  : drawerState.type === "month"
+                  ? `${dayjs(`${drawerState.month}-01`).format("YYYY 年 MM 月")} - 案件明細`
+                  : drawerState.type === "hour"
+                  ? `${WEEKDAY_LABELS[drawerState.weekday]} ${String(drawerState.hour).padStart(2, "0")}:00–${String(drawerState.hour).padStart(2, "0")}:59 - 案件明細`
+                  : durationDrawer
+                  ? `${durationDrawer.label}${durationDrawer.groupLabel ? ` / ${durationDrawer.groupLabel}` : ""} - 案件明細`
+                  : "處理時間區間 - 案件明細"}
               </h3>
               <button
                 onClick={() => setDrawerState(null)}
@@ -1464,75 +1772,89 @@ export default function Dashboard() {
               {drawerState.type === "module" ? (
                 <>
                   <p>總件數：{moduleDrilldownRows.length}</p>
-                  {moduleDrilldownRows.length === 0 ? (
-                    <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
-                      <p>沒有找到 {drawerState.name} 模組的詳細資料</p>
-                      <p>請檢查資料來源或選擇其他模組</p>
-                    </div>
-                  ) : (
-                    <div className="table-container">
-                      <table>
-                        <thead>
-                          <tr>
-                            <th>日期</th>
-                            <th>分類</th>
-                            <th>處理時間(分)</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {moduleDrilldownRows.slice(0, 100).map((r, i) => (
-                            <tr key={i}>
-                              <td>{r["call_time"]}</td>
-                              <td>{r["category"]}</td>
-                              <td>{r["resolve_minute"]}</td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  )}
-                  {moduleDrilldownRows.length > 100 && (
-                    <p style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
-                      只顯示前 100 筆，其餘 {moduleDrilldownRows.length - 100} 筆可透過資料匯出取得
+                  <DrilldownTable
+                    columns={MODULE_CALL_COLUMNS}
+                    rows={moduleDrilldownRows}
+                    empty={
+                      <>
+                        <p>沒有找到 {drawerState.name} 模組的詳細資料</p>
+                        <p>請檢查資料來源或選擇其他模組</p>
+                      </>
+                    }
+                  />
+                </>
+              ) : drawerState.type === "day" ? (
+                <>
+                  {anomalyByDate.has(drawerState.date) && (
+                    <p>
+                      異常日：{calendar(drawerState.date).kind === "makeup" ? "近期工作日" : "同星期幾"}中位數 {formatNumber(anomalyByDate.get(drawerState.date)!.expected)} 件，
+                      z 分數 {anomalyByDate.get(drawerState.date)!.score.toFixed(1)}
                     </p>
                   )}
+                  <p>總件數：{formatNumber(dayDrilldownRows.length)}</p>
+                  <DrilldownTable
+                    columns={CALL_COLUMNS}
+                    rows={dayDrilldownRows}
+                    empty={callsViewPending || callsViewLoading ? "計算中…" : "目前的篩選條件下這天沒有案件明細"}
+                  />
                 </>
-              ) : (
+              ) : drawerState.type === "hour" ? (
                 <>
-                  <p>區間：{drawerState.label}</p>
-                  {drawerState.groupLabel ? <p>維度：{drawerState.groupLabel}</p> : null}
-                  <p>筆數：{drawerState.rows.length}</p>
-                  {drawerState.rows.length === 0 ? (
-                    <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>暫無資料</div>
-                  ) : (
-                    <div className="table-container">
-                      <table>
-                        <thead>
-                          <tr>
-                            <th>日期</th>
-                            <th>分類</th>
-                            <th>模組</th>
-                            <th>處理時間(分)</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {drawerState.rows.slice(0, 100).map((r, i) => (
-                            <tr key={i}>
-                              <td>{r["call_time"]}</td>
-                              <td>{r["category"]}</td>
-                              <td>{r["module"]}</td>
-                              <td>{r["resolve_minute"]}</td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  )}
-                  {drawerState.rows.length > 100 && (
-                    <p style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
-                      只顯示前 100 筆，其餘 {drawerState.rows.length - 100} 筆可透過資料匯出取得
-                    </p>
+                  <p>總件數：{formatNumber(hourDrilldownRows.length)}</p>
+                  <DrilldownTable
+                    columns={CALL_COLUMNS}
+                    rows={hourDrilldownRows}
+                    empty={callsViewPending || callsViewLoading ? "計算中…" : "目前的篩選條件下這個時段沒有案件明細"}
+                  />
+                </>
+              ) : drawerState.type === "month" ? (
+                <>
+                  <p>總件數：{formatNumber(monthDrilldownRows.length)}</p>
+                  <DrilldownTable
+                    columns={CALL_COLUMNS}
+                    rows={monthDrilldownRows}
+                    empty={callsViewPending || callsViewLoading ? "計算中…" : "目前的篩選條件下這個月沒有案件明細"}
+                  />
+                </>
+              ) : drawerState.type === "sla" ? (
+                <>
+                  <p>逾時件數：{formatNumber(slaBreachRows.length)}</p>
+                  {slaBreachRows.length > 0 && (
+                    <button
+                      className="btn"
+                      onClick={() => downloadCsv(
+                        `sla-breaches-${exportKey}.csv`,
+                        slaBreachRows.map(r => ({
+                          時間: r.callTime,
+                          分類: r.category,
+                          模組: r.module,
+                          "處理時間(分)": r.resolveMinute ?? "",
+                          "時限(分)": r.target,
+                        })),
+                      )}
+                    >
+                      匯出 CSV
+                    </button>
                   )}
+                  <DrilldownTable
+                    columns={SLA_BREACH_COLUMNS}
+                    rows={slaBreachRows}
+                    empty={callsViewPending || callsViewLoading ? "計算中…" : "目前的篩選條件下沒有逾時案件"}
+                    overflow={hidden => `依超出時限的分鐘數排序，只顯示前 100 筆，其餘 ${hidden} 筆請匯出 CSV`}
+                  />
+                </>
+              ) : !durationDrawer ? (
+                <DrilldownTable
+                  columns={CALL_COLUMNS}
+                  rows={[]}
+                  empty={callsViewPending || callsViewLoading ? "計算中…" : "目前的篩選條件下沒有這個區間"}
+                />
+              ) : (
+                <>
+                  <p>區間：{durationDrawer.label}</p>
+                  {durationDrawer.groupLabel ? <p>維度：{durationDrawer.groupLabel}</p> : null}
+                  <p>筆數：{durationDrawer.rows.length}</p>
+                  <DrilldownTable columns={CALL_COLUMNS} rows={durationDrawer.rows} empty="暫無資料" />
                 </>
               )}
             </div>
@@ -1543,17 +1865,68 @@ export default function Dashboard() {
   );
 }
 
-function Kpi({ label, value, detail }: { label: string; value: any; detail?: ReactNode | null }) {
+type KpiProps = {
+  label: string;
+  value: number | string;
+  detail?: ReactNode | null;
+  // 比較模式：與基準期間的差異
+  change?: Change | null;
+  compareLabel?: string | null;
+  digits?: number;
+  // 數值下降代表改善（例如處理時長）
+  lowerIsBetter?: boolean;
+};
+
+function Kpi({ label, value, detail, change, compareLabel, digits = 0, lowerIsBetter = false }: KpiProps) {
   const display = typeof value === "number" && !Number.isNaN(value) ? formatNumber(value) : String(value ?? "-");
+  const diff = change ? change.current - change.baseline : null;
+  const rounded = diff != null ? Number(diff.toFixed(digits)) : null;
+  const tone = !rounded ? "flat" : rounded > 0 ? "up" : "down";
   return (
     <div className="kpi">
       <div className="kpi-label">{label}</div>
       <div className="kpi-value">{display}</div>
+      {change && rounded != null && (
+        <div className={`kpi-change kpi-change--${tone}${lowerIsBetter ? " kpi-change--inverse" : ""}`} title={`${compareLabel ?? "比較期間"}：${formatNumber(Number(change.baseline.toFixed(digits)))}`}>
+          {rounded > 0 ? "▲" : rounded < 0 ? "▼" : "–"} {rounded > 0 ? "+" : ""}{formatNumber(rounded)}
+          {change.baseline ? `（${formatPercent((diff! / change.baseline) * 100)}）` : ""}
+          <span className="kpi-change__label">vs {compareLabel ?? "比較期間"}</span>
+        </div>
+      )}
       {detail ? <div className="kpi-detail">{detail}</div> : null}
     </div>
   );
 }
 
+type BoxShapeProps = {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: DurationStatRow;
+};
+
+// 箱形圖：長條的範圍是上下鬚，依比例換算四分位數與中位數的位置
+function BoxShape({ x = 0, y = 0, width = 0, height = 0, payload }: BoxShapeProps) {
+  if (!payload) return null;
+  const { whiskerLow, whiskerHigh, q1, median, q3, color } = payload;
+  const span = whiskerHigh - whiskerLow;
+  const toY = (value: number) => (span ? y + (height * (whiskerHigh - value)) / span : y + height);
+  const boxWidth = Math.min(width * 0.6, 48);
+  const left = x + (width - boxWidth) / 2;
+  const center = x + width / 2;
+  return (
+    <g>
+      <line x1={center} x2={center} y1={toY(whiskerHigh)} y2={toY(q3)} stroke={color} />
+      <line x1={center} x2={center} y1={toY(q1)} y2={toY(whiskerLow)} stroke={color} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={toY(whiskerHigh)} y2={toY(whiskerHigh)} stroke={color} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={toY(whiskerLow)} y2={toY(whiskerLow)} stroke={color} />
+      <rect x={left} y={toY(q3)} width={boxWidth} height={Math.max(1, toY(q1) - toY(q3))} fill={color} fillOpacity={0.25} stroke={color} />
+      <line x1={left} x2={left + boxWidth} y1={toY(median)} y2={toY(median)} stroke={color} strokeWidth={2} />
+    </g>
+  );
+}
+
 function LoadingState() {
   return (
     <div className="page loading-screen">
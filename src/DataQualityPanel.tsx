@@ -0,0 +1,173 @@
+import { useMemo } from "react";
+import { downloadCsv } from "./download";
+import { buildQualityReport, type ParsedDatasets } from "./quality";
+import { DATASET_LABELS } from "./sources";
+
+type Props = { parsed: ParsedDatasets; onClose: () => void };
+
+const numberFormatter = new Intl.NumberFormat("zh-Hant");
+
+export default function DataQualityPanel({ parsed, onClose }: Props) {
+  const report = useMemo(() => buildQualityReport(parsed), [parsed]);
+  const { crossCheck, categoryCheck } = report;
+
+  return (
+    <>
+      <div
+        className="drawer-overlay active"
+        onClick={onClose}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      />
+      <div className="drawer open" role="dialog" aria-modal="true" aria-labelledby="quality-panel-title">
+        <div className="drawer-header">
+          <h3 id="quality-panel-title">資料品質報告</h3>
+          <button onClick={onClose} className="close-button" aria-label="關閉抽屜">×</button>
+        </div>
+        <div className="drawer-body">
+          {report.datasets.map(item => (
+            <section className="quality-section" key={item.dataset}>
+              <h4 className="quality-section__title">{DATASET_LABELS[item.dataset]}</h4>
+              <p>
+                共 {numberFormatter.format(item.total)} 列
+                {item.rejected ? `，剔除 ${numberFormatter.format(item.rejected)} 列` : ""}
+              </p>
+              {item.unknownColumns.length > 0 && (
+                <div className="quality-note">未使用的欄位：{item.unknownColumns.join("、")}</div>
+              )}
+              {item.checks.length ? (
+                <ul className="quality-list">
+                  {item.checks.map(check => (
+                    <li key={check.id}>
+                      <span>{check.label}：{numberFormatter.format(check.rows.length)} 筆</span>
+                      <button
+                        className="btn btn--link"
+                        onClick={() => downloadCsv(`quality-${item.dataset}-${check.id}.csv`, check.rows)}
+                      >
+                        下載
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="quality-note quality-note--ok">未發現問題</div>
+              )}
+            </section>
+          ))}
+          <section className="quality-section">
+            <h4 className="quality-section__title">每日趨勢 × 案件明細 比對</h4>
+            {crossCheck.compared ? (
+              <>
+                <p>
+                  {crossCheck.from} ~ {crossCheck.to} 共比對 {numberFormatter.format(crossCheck.compared)} 日，
+                  {crossCheck.mismatches.length ? `${numberFormatter.format(crossCheck.mismatches.length)} 日件數不一致` : "件數皆一致"}
+                </p>
+                {crossCheck.mismatches.length > 0 && (
+                  <>
+                    <div className="table-container">
+                      <table>
+                        <thead>
+                          <tr>
+                            <th>日期</th>
+                            <th>趨勢表</th>
+                            <th>明細計算</th>
+                            <th>差異</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {crossCheck.mismatches.slice(0, 100).map(row => (
+                            <tr key={row.date}>
+                              <td>{row.date}</td>
+                              <td>{row.trend}</td>
+                              <td>{row.calls}</td>
+                              <td>{row.diff > 0 ? `+${row.diff}` : row.diff}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div className="actions source-panel__actions">
+                      <button
+                        className="btn"
+                        onClick={() => downloadCsv("quality-trend-vs-calls.csv", crossCheck.mismatches.map(row => ({
+                          日期: row.date,
+                          趨勢表件數: row.trend,
+                          明細件數: row.calls,
+                          差異: row.diff,
+                        })))}
+                      >
+                        下載不一致日期
+                      </button>
+                    </div>
+                  </>
+                )}
+              </>
+            ) : (
+              <div className="quality-note">案件明細沒有可比對的日期</div>
+            )}
+          </section>
+          {categoryCheck && (
+            <section className="quality-section">
+              <h4 className="quality-section__title">分類趨勢 × 案件明細 比對</h4>
+              {categoryCheck.compared ? (
+                <>
+                  <p>
+                    {categoryCheck.from} ~ {categoryCheck.to} 共比對 {numberFormatter.format(categoryCheck.compared)} 日，
+                    {categoryCheck.mismatches.length
+                      ? `${numberFormatter.format(categoryCheck.mismatches.length)} 筆日期 × 分類件數不一致`
+                      : "件數皆一致"}
+                  </p>
+                  {categoryCheck.mismatches.length > 0 && (
+                    <>
+                      <div className="table-container">
+                        <table>
+                          <thead>
+                            <tr>
+                              <th>日期</th>
+                              <th>分類</th>
+                              <th>分類趨勢表</th>
+                              <th>明細計算</th>
+                              <th>差異</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {categoryCheck.mismatches.slice(0, 100).map(row => (
+                              <tr key={`${row.date}|${row.category}`}>
+                                <td>{row.date}</td>
+                                <td>{row.category}</td>
+                                <td>{row.sheet}</td>
+                                <td>{row.calls}</td>
+                                <td>{row.diff > 0 ? `+${row.diff}` : row.diff}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <div className="actions source-panel__actions">
+                        <button
+                          className="btn"
+                          onClick={() => downloadCsv("quality-category-trend-vs-calls.csv", categoryCheck.mismatches.map(row => ({
+                            日期: row.date,
+                            分類: row.category,
+                            分類趨勢表件數: row.sheet,
+                            明細件數: row.calls,
+                            差異: row.diff,
+                          })))}
+                        >
+                          下載不一致資料
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </>
+              ) : (
+                <div className="quality-note">案件明細沒有可比對的日期</div>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
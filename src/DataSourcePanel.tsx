@@ -0,0 +1,143 @@
+import { useState } from "react";
+import {
+  DATASET_KEYS,
+  DATASET_LABELS,
+  REFRESH_OPTIONS,
+  resetSourceOverrides,
+  saveRefreshOverrides,
+  saveSourceOverrides,
+  useDataSources,
+  type DatasetKey,
+  type RefreshConfig,
+  type SourceBinding,
+  type SourceConfig,
+} from "./sources";
+
+type Props = { onClose: () => void };
+
+// 可由案件明細推算的彙總資料集
+const DERIVABLE: DatasetKey[] = ["trend", "moduleByMonth", "avgCallDuration"];
+
+export default function DataSourcePanel({ onClose }: Props) {
+  const sources = useDataSources();
+  const [draft, setDraft] = useState<SourceConfig>(() => {
+    const config = {} as SourceConfig;
+    for (const key of DATASET_KEYS) config[key] = sources[key];
+    return config;
+  });
+  const [refresh, setRefresh] = useState<RefreshConfig>(() => ({ ...sources.refresh }));
+  const [files, setFiles] = useState<Partial<Record<DatasetKey, File>>>({});
+
+  const update = (key: DatasetKey, binding: SourceBinding) => {
+    setDraft(prev => ({ ...prev, [key]: binding }));
+  };
+
+  const changeKind = (key: DatasetKey, kind: SourceBinding["kind"]) => {
+    if (kind === "url") update(key, { kind: "url", url: draft[key].kind === "url" ? draft[key].url : "" });
+    else if (kind === "file") update(key, { kind: "file", fileName: files[key]?.name ?? "", importedAt: Date.now() });
+    else update(key, { kind: "disabled" });
+  };
+
+  const pickFile = (key: DatasetKey, file: File | undefined) => {
+    if (!file) return;
+    setFiles(prev => ({ ...prev, [key]: file }));
+    update(key, { kind: "file", fileName: file.name, importedAt: Date.now() });
+  };
+
+  const invalid = DATASET_KEYS.some(key => {
+    const binding = draft[key];
+    if (binding.kind === "url") return !binding.url.trim();
+    if (binding.kind === "file") return !binding.fileName;
+    return false;
+  });
+
+  const handleSave = () => {
+    saveSourceOverrides(draft, files);
+    saveRefreshOverrides(refresh);
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetSourceOverrides();
+    onClose();
+  };
+
+  return (
+    <>
+      <div
+        className="drawer-overlay active"
+        onClick={onClose}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      />
+      <div className="drawer open" role="dialog" aria-modal="true" aria-labelledby="source-panel-title">
+        <div className="drawer-header">
+          <h3 id="source-panel-title">資料來源設定</h3>
+          <button onClick={onClose} className="close-button" aria-label="關閉抽屜">×</button>
+        </div>
+        <div className="drawer-body">
+          <p>每個資料集可指定網址、本機檔案或停用。設定只存在此瀏覽器，部署的 sources.json 為預設值。網址來源可設定自動更新間隔。</p>
+          {DATASET_KEYS.map(key => {
+            const binding = draft[key];
+            return (
+              <div className="source-row" key={key}>
+                <div className="source-row__head">
+                  <span className="source-row__label">{DATASET_LABELS[key]}</span>
+                  <select
+                    className="select"
+                    value={binding.kind}
+                    onChange={(e) => changeKind(key, e.target.value as SourceBinding["kind"])}
+                  >
+                    <option value="url">網址</option>
+                    <option value="file">本機檔案</option>
+                    <option value="disabled">停用</option>
+                  </select>
+                </div>
+                {binding.kind === "url" && (
+                  <input
+                    className="source-row__input"
+                    type="url"
+                    placeholder="https://…/pub?output=csv"
+                    value={binding.url}
+                    onChange={(e) => update(key, { kind: "url", url: e.target.value })}
+                  />
+                )}
+                {binding.kind === "url" && (
+                  <label className="source-row__refresh">
+                    自動更新
+                    <select
+                      className="select"
+                      value={refresh[key]}
+                      onChange={(e) => setRefresh(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                    >
+                      {/* 設定檔可能指定清單外的間隔，一併列出 */}
+                      {Array.from(new Set([...REFRESH_OPTIONS, refresh[key]])).sort((a, b) => a - b).map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes ? `每 ${minutes} 分鐘` : "不自動更新"}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {binding.kind === "disabled" && DERIVABLE.includes(key) && (
+                  <span className="source-row__hint">停用時由案件明細自動計算</span>
+                )}
+                {binding.kind === "file" && (
+                  <div className="source-row__file">
+                    <input type="file" accept=".csv,.xlsx,.xls,text/csv" onChange={(e) => pickFile(key, e.target.files?.[0])} />
+                    {binding.fileName && !files[key] && (
+                      <span className="source-row__hint">目前：{binding.fileName}（重新整理後需重新選擇）</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <div className="actions source-panel__actions">
+            <button className="btn" onClick={handleSave} disabled={invalid}>套用</button>
+            <button className="btn" onClick={handleReset}>還原預設</button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+import type { ReactNode } from "react";
+
+export type DrilldownColumn<T> = {
+  label: string;
+  value: (row: T) => ReactNode;
+};
+
+type Props<T> = {
+  columns: DrilldownColumn<T>[];
+  rows: T[];
+  // 沒有任何列時顯示的訊息
+  empty: ReactNode;
+  // 超過顯示上限時的說明，預設提示可透過資料匯出取得
+  overflow?: (hidden: number) => ReactNode;
+};
+
+// 抽屜最多列出的筆數，其餘請匯出
+const LIMIT = 100;
+
+/** 抽屜中的案件明細表：最多列出前 100 筆。 */
+export default function DrilldownTable<T>({ columns, rows, empty, overflow }: Props<T>) {
+  if (!rows.length) return <div className="drilldown-empty">{empty}</div>;
+  const hidden = rows.length - LIMIT;
+  return (
+    <>
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              {columns.map(column => <th key={column.label}>{column.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, LIMIT).map((row, i) => (
+              <tr key={i}>
+                {columns.map(column => <td key={column.label}>{column.value(row)}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {hidden > 0 && (
+        <p className="drilldown-note">
+          {overflow ? overflow(hidden) : `只顯示前 ${LIMIT} 筆，其餘 ${hidden} 筆可透過資料匯出取得`}
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useRef } from "react";
+import dayjs from "dayjs";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import CardStatus from "./CardStatus";
+import { downloadCsv, downloadPng } from "./download";
+import type { DurationGroupBy, DurationTrend } from "./aggregate";
+import type { AvgDurationRow } from "./schema";
+import type { DatasetKey } from "./sources";
+import type { DatasetStatus } from "./useSheets";
+import type { DurationTrendMetric, DurationTrendParams } from "./viewState";
+
+type Props = {
+  trend: DurationTrend;
+  // 平均處理時長（月資料），畫成參考線
+  reference: AvgDurationRow[];
+  // 交叉篩選時參考線仍是未篩選的整體平均，圖例註明
+  referenceUnfiltered: boolean;
+  params: DurationTrendParams;
+  onChange: (patch: Partial<DurationTrendParams>) => void;
+  // 點選某一期開啟該期的案件明細；period 為 YYYY-MM-DD 或 YYYY-MM
+  onSelectPeriod: (period: string) => void;
+  status: Record<DatasetKey, DatasetStatus>;
+  computing: boolean;
+  recomputing: boolean;
+  rangeLabel: string;
+  exportKey: string;
+};
+
+const METRIC_LABELS: Record<DurationTrendMetric, string> = { median: "中位數", p90: "P90" };
+const REFERENCE_KEY = "__reference";
+
+const round = (value: number) => Number(value.toFixed(1));
+
+export default function DurationTrendCard({
+  trend, reference, referenceUnfiltered, params, onChange, onSelectPeriod, status, computing, recomputing, rangeLabel, exportKey,
+}: Props) {
+  const referenceName = `平均處理時長（月${referenceUnfiltered ? "，未套用篩選" : ""}）`;
+  const ref = useRef<HTMLDivElement>(null);
+  const { daily, series, rows } = trend;
+
+  // 每期一列：各系列的指標值，參考線取該期所屬月份的平均處理時長
+  const chartRows = useMemo(() => {
+    const byMonth = new Map(reference.map(item => [item.month, item.value]));
+    return rows.map(row => {
+      const point: Record<string, string | number | null> = { period: row.period };
+      for (const { key } of series) {
+        const value = row.values[key];
+        point[key] = value ? round(value[params.metric]) : null;
+        point[`${key}__count`] = value?.count ?? 0;
+      }
+      const month = byMonth.get(row.period.slice(0, 7));
+      point[REFERENCE_KEY] = month == null ? null : round(month);
+      return point;
+    });
+  }, [rows, series, reference, params.metric]);
+  const hasReference = chartRows.some(row => row[REFERENCE_KEY] != null);
+
+  const csvRows = () =>
+    rows.flatMap(row =>
+      series
+        .filter(item => row.values[item.key])
+        .map(item => ({
+          period: row.period,
+          group: item.name,
+          count: row.values[item.key].count,
+          median: round(row.values[item.key].median),
+          p90: round(row.values[item.key].p90),
+        })),
+    );
+
+  const formatPeriod = (value: string, long = false) => {
+    if (daily) return dayjs(value).isValid() ? dayjs(value).format(long ? "YYYY-MM-DD" : "MM-DD") : value;
+    const d = dayjs(`${value}-01`);
+    return d.isValid() ? d.format(long ? "YYYY 年 MM 月" : "YYYY-MM") : value;
+  };
+
+  return (
+    <div className="card" ref={ref}>
+      <div className="card-head">
+        <div className="card-title">
+          處理時間趨勢（分鐘）{rangeLabel ? ` - ${rangeLabel}` : ""}
+          {recomputing && <span className="card-loading__spinner card-title__spinner" role="status" aria-label="重新計算中" />}
+        </div>
+        <div className="actions">
+          <select
+            className="select select--compact"
+            aria-label="指標"
+            value={params.metric}
+            onChange={e => onChange({ metric: e.target.value as DurationTrendMetric })}
+          >
+            {(Object.keys(METRIC_LABELS) as DurationTrendMetric[]).map(key => (
+              <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            className="select select--compact"
+            aria-label="分組"
+            value={params.groupBy}
+            onChange={e => onChange({ groupBy: e.target.value as DurationGroupBy })}
+          >
+            <option value="none">全部</option>
+            <option value="category">分類</option>
+            <option value="module">模組</option>
+          </select>
+          <button className="btn" onClick={() => downloadPng(`resolve-trend-${exportKey}.png`, ref.current)} disabled={!rows.length}>匯出 PNG</button>
+          <button className="btn" onClick={() => downloadCsv(`resolve-trend-${exportKey}.csv`, csvRows())} disabled={!rows.length}>
+            匯出 CSV
+          </button>
+        </div>
+      </div>
+      <CardStatus status={status} datasets={["calls"]} computing={computing}>
+        <div className="chart">
+          {rows.length ? (
+            <ResponsiveContainer>
+              <LineChart
+                data={chartRows}
+                onClick={state => {
+                  const period = String(state?.activeLabel ?? "");
+                  if (period) onSelectPeriod(period);
+                }}
+                style={{ cursor: "pointer" }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" minTickGap={24} tickFormatter={value => formatPeriod(String(value))} />
+                <YAxis />
+                <Tooltip
+                  labelFormatter={value => formatPeriod(String(value), true)}
+                  formatter={(value, name, item) => {
+                    if (item?.dataKey === REFERENCE_KEY) return [`${value} 分`, name];
+                    const count = item?.payload?.[`${String(item.dataKey)}__count`];
+                    return [`${value} 分（${count} 件）`, name];
+                  }}
+                />
+                <Legend />
+                {series.map(item => (
+                  <Line
+                    key={item.key}
+                    type="monotone"
+                    dataKey={item.key}
+                    name={item.name}
+                    stroke={item.color}
+                    strokeWidth={item.key === "__all" ? 2.5 : 1.5}
+                    dot={rows.length <= 31}
+                    connectNulls
+                  />
+                ))}
+                {hasReference && (
+                  <Line
+                    type="stepAfter"
+                    dataKey={REFERENCE_KEY}
+                    name={referenceName}
+                    stroke="#94a3b8"
+                    strokeDasharray="5 3"
+                    dot={false}
+                    connectNulls
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="empty">目前期間沒有處理時間（resolve_minute）資料</div>
+          )}
+        </div>
+      </CardStatus>
+      <div className="card-source">
+        {daily ? "逐日" : "逐月"}計算{METRIC_LABELS[params.metric]}
+        {params.groupBy !== "none" && `，列出件數前 5 名${params.groupBy === "category" ? "分類" : "模組"}（已在工具列選擇時改列選擇的項目）`}
+        ；{referenceName}為平均值，僅供對照；點選圖上任一期開啟該期的案件明細
+      </div>
+    </div>
+  );
+}
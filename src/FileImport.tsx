@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { isSupportedDataFile } from "./data";
+import { bindSourceFiles, DATASET_KEYS, DATASET_LABELS, type DatasetKey } from "./sources";
+
+type PendingFile = { file: File; target: DatasetKey | "skip" };
+
+// 依檔名猜測資料集，使用者可在對話框中修改
+const guessDataset = (name: string): DatasetKey => {
+  const lower = name.toLowerCase();
+  if (/category|分類/.test(lower)) return "categoryTrend";
+  if (/module|模組/.test(lower)) return "moduleByMonth";
+  if (/duration|avg|時長/.test(lower)) return "avgCallDuration";
+  if (/trend|daily|趨勢/.test(lower)) return "trend";
+  return "calls";
+};
+
+const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes("Files");
+
+export default function FileImport() {
+  const [dragging, setDragging] = useState(false);
+  const [pending, setPending] = useState<PendingFile[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const depth = useRef(0);
+
+  useEffect(() => {
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth.current += 1;
+      setDragging(true);
+    };
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = "copy";
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth.current = Math.max(0, depth.current - 1);
+      if (depth.current === 0) setDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth.current = 0;
+      setDragging(false);
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      const accepted = files.filter(isSupportedDataFile);
+      setRejected(files.filter(file => !isSupportedDataFile(file)).map(file => file.name));
+      if (!accepted.length) return;
+      const used = new Set<DatasetKey>();
+      setPending(accepted.map(file => {
+        const guess = guessDataset(file.name);
+        const target = used.has(guess) ? "skip" : guess;
+        if (target !== "skip") used.add(target);
+        return { file, target };
+      }));
+    };
+
+    window.addEventListener("dragenter", onDragEnter);
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("drop", onDrop);
+    return () => {
+      window.removeEventListener("dragenter", onDragEnter);
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, []);
+
+  const close = () => {
+    setPending([]);
+    setRejected([]);
+  };
+
+  const setTarget = (index: number, target: PendingFile["target"]) => {
+    setPending(prev => prev.map((item, i) => (i === index ? { ...item, target } : item)));
+  };
+
+  const targets = pending.map(item => item.target).filter(target => target !== "skip");
+  const duplicated = targets.length !== new Set(targets).size;
+
+  const handleImport = () => {
+    const files: Partial<Record<DatasetKey, File>> = {};
+    for (const item of pending) {
+      if (item.target !== "skip") files[item.target] = item.file;
+    }
+    bindSourceFiles(files);
+    close();
+  };
+
+  return (
+    <>
+      {dragging && (
+        <div className="file-drop" aria-hidden="true">
+          <div className="file-drop__box">放開以匯入 CSV / XLSX 檔案</div>
+        </div>
+      )}
+      {(pending.length > 0 || rejected.length > 0) && (
+        <>
+          <div
+            className="drawer-overlay active"
+            onClick={close}
+            role="button"
+            tabIndex={0}
+            onKeyDown={(e) => e.key === "Escape" && close()}
+          />
+          <div className="drawer open" role="dialog" aria-modal="true" aria-labelledby="file-import-title">
+            <div className="drawer-header">
+              <h3 id="file-import-title">匯入本機檔案</h3>
+              <button onClick={close} className="close-button" aria-label="關閉抽屜">×</button>
+            </div>
+            <div className="drawer-body">
+              {pending.length > 0 && <p>選擇每個檔案要提供的資料集，匯入後所有圖表會改用檔案內容重新計算。</p>}
+              {pending.map((item, index) => (
+                <div className="source-row" key={`${item.file.name}-${index}`}>
+                  <div className="source-row__head">
+                    <span className="source-row__label">{item.file.name}</span>
+                    <select
+                      className="select"
+                      value={item.target}
+                      onChange={(e) => setTarget(index, e.target.value as PendingFile["target"])}
+                    >
+                      {DATASET_KEYS.map(key => <option key={key} value={key}>{DATASET_LABELS[key]}</option>)}
+                      <option value="skip">不匯入</option>
+                    </select>
+                  </div>
+                </div>
+              ))}
+              {rejected.length > 0 && (
+                <p className="source-row__hint">不支援的檔案格式：{rejected.join("、")}</p>
+              )}
+              {duplicated && <p className="source-row__hint">同一個資料集只能指定一個檔案</p>}
+              <div className="actions source-panel__actions">
+                <button className="btn" onClick={handleImport} disabled={!targets.length || duplicated}>匯入</button>
+                <button className="btn" onClick={close}>取消</button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import type { VolumeProfile } from "./aggregate";
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from "./calendar";
+import type { HeatmapMetric } from "./viewState";
+
+type Props = {
+  profile: VolumeProfile;
+  metric: HeatmapMetric;
+  onSelect: (weekday: number, hour: number) => void;
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/** 熱度圖的格值：平均為該星期幾每天在該小時的件數。 */
+const heatmapValue = (profile: VolumeProfile, metric: HeatmapMetric, weekday: number, hour: number) => {
+  const total = profile.byHour[weekday][hour];
+  if (metric === "total") return total;
+  return profile.days[weekday] ? total / profile.days[weekday] : 0;
+};
+
+export default function HourHeatmap({ profile, metric, onSelect }: Props) {
+  const max = Math.max(0, ...WEEKDAY_ORDER.flatMap(day => HOURS.map(hour => heatmapValue(profile, metric, day, hour))));
+  const format = (value: number) => (metric === "total" ? String(value) : value.toFixed(1));
+
+  return (
+    <div className="heatmap">
+      <table>
+        <thead>
+          <tr>
+            <th />
+            {HOURS.map(hour => <th key={hour}>{hour}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {WEEKDAY_ORDER.map(day => (
+            <tr key={day}>
+              <th>{WEEKDAY_LABELS[day]}</th>
+              {HOURS.map(hour => {
+                const value = heatmapValue(profile, metric, day, hour);
+                const ratio = max ? value / max : 0;
+                const label = `${WEEKDAY_LABELS[day]} ${String(hour).padStart(2, "0")}:00，${metric === "total" ? "合計" : "平均"} ${format(value)} 件`;
+                return (
+                  <td
+                    key={hour}
+                    className={`heatmap__cell${ratio > 0.55 ? " heatmap__cell--dark" : ""}`}
+                    style={{ backgroundColor: value ? `rgba(37, 99, 235, ${0.08 + ratio * 0.92})` : undefined }}
+                    title={label}
+                    aria-label={label}
+                    role={profile.byHour[day][hour] ? "button" : undefined}
+                    tabIndex={profile.byHour[day][hour] ? 0 : undefined}
+                    onClick={() => profile.byHour[day][hour] && onSelect(day, hour)}
+                    onKeyDown={e => e.key === "Enter" && profile.byHour[day][hour] && onSelect(day, hour)}
+                  >
+                    {value ? format(value) : ""}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useMemo, useRef } from "react";
+import {
+  Bar, BarChart, CartesianGrid, Cell, ComposedChart, LabelList, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from "recharts";
+import CardStatus from "./CardStatus";
+import { downloadCsv, downloadPng } from "./download";
+import { formatNumber } from "./format";
+import { TOP_N_OPTIONS, moduleMonthMatrix, type ModuleRank, type ModuleRanking } from "./moduleRanking";
+import type { DateRange } from "./dateRange";
+import type { ModuleMonthRow } from "./schema";
+import type { DatasetKey } from "./sources";
+import type { DatasetStatus } from "./useSheets";
+import type { ModuleRankParams, ModuleView } from "./viewState";
+
+type Props = {
+  ranking: ModuleRanking;
+  moduleRows: ModuleMonthRow[];
+  range: DateRange;
+  params: ModuleRankParams;
+  onChange: (patch: Partial<ModuleRankParams>) => void;
+  // 比較模式的基準期間名稱；長條圖並列基準期間件數
+  compareLabel: string | null;
+  // 名次變化所比較的期間名稱；沒有基準期間時為 null，能否比較見 ranking.movement
+  movementLabel: string | null;
+  selected: string[];
+  onToggle: (name: string) => void;
+  onOpen: ((name: string) => void) | null;
+  status: Record<DatasetKey, DatasetStatus>;
+  rangeLabel: string;
+  // 區間未對齊整月時，月資料包含頭尾整月
+  partialMonths: boolean;
+  exportKey: string;
+};
+
+const VIEW_LABELS: Record<ModuleView, string> = { bar: "長條圖", pareto: "柏拉圖", table: "排名表", heatmap: "月熱度圖" };
+const PARETO_LINE = 80;
+
+const signed = (value: number) => `${value > 0 ? "+" : ""}${formatNumber(value)}`;
+
+/** 名次變化：▲ 為名次上升；基準期間沒有案件時為新進。 */
+const movementOf = (row: ModuleRank) => {
+  if (row.previousRank === undefined) return null;
+  if (row.previousRank === null) return { label: "新進", tone: "up" };
+  const diff = row.previousRank - row.rank;
+  if (!diff) return { label: "–", tone: "flat" };
+  return diff > 0 ? { label: `▲${diff}`, tone: "up" } : { label: `▼${-diff}`, tone: "down" };
+};
+
+export default function ModuleRankingCard({
+  ranking, moduleRows, range, params, onChange, compareLabel, movementLabel, selected, onToggle, onOpen, status, rangeLabel, partialMonths, exportKey,
+}: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const { view, topN } = params;
+  const { rows, movement, entered, left } = ranking;
+  // 基準期間與本期落在相同月份或沒有資料時，不列名次變化與基準件數
+  const movementName = movement === "ok" ? movementLabel : null;
+  const baselineName = movement === "ok" ? compareLabel : null;
+  const topRows = useMemo(
+    () =>
+      rows.slice(0, topN).map(row => ({
+        ...row,
+        deltaLabel: baselineName && row.delta != null ? signed(row.delta) : undefined,
+      })),
+    [rows, topN, baselineName],
+  );
+  const matrix = useMemo(() => moduleMonthMatrix(moduleRows, range), [moduleRows, range]);
+  const heatmapModules = matrix.modules.slice(0, topN);
+
+  const csvRows = () =>
+    rows.map(row => ({
+      rank: row.rank,
+      module: row.name,
+      count: row.value,
+      share: +row.share.toFixed(1),
+      cumulative: +row.cumulative.toFixed(1),
+      ...(row.previousRank !== undefined ? { previousRank: row.previousRank ?? "", delta: row.delta ?? "" } : {}),
+    }));
+
+  const dimmed = (name: string) => (selected.length && !selected.includes(name) ? 0.35 : 1);
+
+  return (
+    <div className="card" ref={ref}>
+      <div className="card-head">
+        <div className="card-title">
+          模組排行（件數）{rangeLabel ? ` - ${rangeLabel}` : ""}
+          {partialMonths && <span className="label">（以涵蓋月份計）</span>}
+        </div>
+        <div className="actions">
+          <select
+            className="select select--compact"
+            aria-label="呈現方式"
+            value={view}
+            onChange={e => onChange({ view: e.target.value as ModuleView })}
+          >
+            {(Object.keys(VIEW_LABELS) as ModuleView[]).map(key => (
+              <option key={key} value={key}>{VIEW_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            className="select select--compact"
+            aria-label="前 N 名"
+            value={topN}
+            onChange={e => onChange({ topN: Number(e.target.value) })}
+          >
+            {TOP_N_OPTIONS.map(value => <option key={value} value={value}>前 {value} 名</option>)}
+          </select>
+          <button className="btn" onClick={() => downloadPng(`module-ranking-${exportKey}.png`, ref.current)} disabled={!rows.length}>匯出 PNG</button>
+          <button className="btn" onClick={() => downloadCsv(`module-ranking-${exportKey}.csv`, csvRows())} disabled={!rows.length}>
+            匯出 CSV
+          </button>
+        </div>
+      </div>
+      <CardStatus status={status} datasets={["moduleByMonth"]}>
+        {!rows.length ? (
+          <div className="chart">
+            <div className="empty">目前期間沒有模組資料</div>
+          </div>
+        ) : view === "table" ? (
+          <div className="data-table data-table--scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>名次</th>
+                  <th>模組</th>
+                  <th>件數</th>
+                  <th>佔比</th>
+                  <th>累積佔比</th>
+                  {movementName && <th>{movementName}名次</th>}
+                  {movementName && <th>名次變化</th>}
+                  {movementName && <th>件數增減</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const movement = movementOf(row);
+                  return (
+                    <tr key={row.name} className={row.rank <= topN ? "data-table__row--top" : undefined}>
+                      <td>{row.rank}</td>
+                      <td>
+                        <button className="btn btn--link" onClick={() => onToggle(row.name)} aria-pressed={selected.includes(row.name)}>
+                          {row.name}
+                        </button>
+                        {onOpen && <button className="btn btn--link" onClick={() => onOpen(row.name)}>明細</button>}
+                      </td>
+                      <td>{formatNumber(row.value)}</td>
+                      <td>{row.share.toFixed(1)}%</td>
+                      <td>{row.cumulative.toFixed(1)}%</td>
+                      {movementName && <td>{row.previousRank ?? "-"}</td>}
+                      {movementName && <td className={`rank-move rank-move--${movement?.tone}`}>{movement?.label}</td>}
+                      {movementName && <td>{row.delta != null ? signed(row.delta) : "-"}</td>}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : view === "heatmap" ? (
+          <div className="heatmap heatmap--modules">
+            <table>
+              <thead>
+                <tr>
+                  <th />
+                  {matrix.months.map(month => <th key={month}>{month.slice(2)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmapModules.map(name => (
+                  <tr key={name}>
+                    <th title={name} onClick={() => onToggle(name)}>{name}</th>
+                    {matrix.months.map(month => {
+                      const value = matrix.counts[name]?.[month] ?? 0;
+                      const ratio = matrix.max ? value / matrix.max : 0;
+                      const label = `${name} ${month}：${formatNumber(value)} 件`;
+                      return (
+                        <td
+                          key={month}
+                          className={`heatmap__cell${ratio > 0.55 ? " heatmap__cell--dark" : ""}`}
+                          style={{ backgroundColor: value ? `rgba(37, 99, 235, ${0.08 + ratio * 0.92})` : undefined }}
+                          title={label}
+                          aria-label={label}
+                        >
+                          {value ? formatNumber(value) : ""}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="chart">
+            <ResponsiveContainer>
+              {view === "pareto" ? (
+                <ComposedChart data={rows}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" interval={rows.length > 20 ? "preserveStartEnd" : 0} angle={-10} textAnchor="end" height={58} />
+                  <YAxis allowDecimals={false} />
+                  <YAxis yAxisId="share" orientation="right" domain={[0, 100]} unit="%" />
+                  <Tooltip
+                    formatter={(value, name, item) =>
+                      item?.dataKey === "cumulative" ? [`${Number(value).toFixed(1)}%`, name] : [formatNumber(Number(value)), name]
+                    }
+                  />
+                  <Legend />
+                  <ReferenceLine yAxisId="share" y={PARETO_LINE} stroke="#94a3b8" strokeDasharray="4 4" />
+                  <Bar dataKey="value" name="案件數" onClick={data => data?.payload?.name && onToggle(String(data.payload.name))} style={{ cursor: "pointer" }}>
+                    {rows.map(row => (
+                      <Cell key={row.name} fill={row.rank <= topN ? "#2563eb" : "#93c5fd"} fillOpacity={dimmed(row.name)} />
+                    ))}
+                  </Bar>
+                  <Line yAxisId="share" type="monotone" dataKey="cumulative" name="累積佔比" stroke="#f97316" dot={false} strokeWidth={2} />
+                </ComposedChart>
+              ) : (
+                <BarChart data={topRows}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" interval={0} angle={-10} textAnchor="end" height={58} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar
+                    dataKey="value"
+                    name="案件數"
+                    onClick={(data) => {
+                      const moduleName = String(data?.name || data?.payload?.name || "");
+                      if (!moduleName) return;
+                      onToggle(moduleName);
+                    }}
+                    style={{ cursor: "pointer" }}
+                  >
+                    {topRows.map(row => (
+                      <Cell key={row.name} fillOpacity={dimmed(row.name)} />
+                    ))}
+                    {baselineName && <LabelList dataKey="deltaLabel" position="top" fontSize={12} />}
+                  </Bar>
+                  {baselineName && <Bar dataKey="baseline" name={baselineName} fill="#94a3b8" />}
+                  {baselineName && <Legend />}
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardStatus>
+      {rows.length > 0 && (
+        <div className="card-source">
+          共 {formatNumber(rows.length)} 個模組，前 {Math.min(topN, rows.length)} 名佔 {rows[Math.min(topN, rows.length) - 1].cumulative.toFixed(1)}%
+          {view === "heatmap" && `；熱度圖列出前 ${heatmapModules.length} 名`}
+          {movementLabel && movement === "sameMonths" && `；本期與${movementLabel}涵蓋相同月份，月統計無法比較名次變化`}
+          {movementLabel && movement === "empty" && `；${movementLabel}沒有模組資料，無法比較名次變化`}
+          {movementName && (
+            <>
+              ；與{movementName}相比，
+              {entered.length ? `進入前 ${topN} 名：${entered.join("、")}` : `前 ${topN} 名沒有新進模組`}
+              {left.length > 0 && (
+                <span className="card-source__warning">
+                  跌出前 {topN} 名：
+                  {left.map(item => `${item.name}（第 ${item.previousRank} 名 → ${item.rank ? `第 ${item.rank} 名` : "無案件"}）`).join("、")}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
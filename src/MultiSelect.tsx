@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+type Props = {
+  label: string;
+  // 依件數排序的選項
+  options: string[];
+  // 空陣列表示不限
+  selected: string[];
+  // 釘選的項目排在清單最前面
+  favorites: string[];
+  onChange: (selected: string[]) => void;
+  onToggleFavorite: (name: string) => void;
+};
+
+export default function MultiSelect({ label, options, selected, favorites, onChange, onToggleFavorite }: Props) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  const visible = useMemo(() => {
+    // 已選但目前期間沒有資料的項目仍列出，才能取消勾選
+    const all = [...options, ...selected.filter(name => !options.includes(name))];
+    const keyword = query.trim().toLowerCase();
+    const matched = keyword ? all.filter(name => name.toLowerCase().includes(keyword)) : all;
+    const pinned = favorites.filter(name => matched.includes(name));
+    return [...pinned, ...matched.filter(name => !favorites.includes(name))];
+  }, [options, selected, favorites, query]);
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter(item => item !== name) : [...selected, name]);
+  };
+  // 全選只作用在搜尋結果上，可用來一次加入符合關鍵字的項目
+  const selectVisible = () => onChange([...selected, ...visible.filter(name => !selected.includes(name))]);
+
+  const summary = !selected.length ? "全部" : selected.length === 1 ? selected[0] : `已選 ${selected.length} 項`;
+
+  return (
+    <div className="multi-select" ref={rootRef}>
+      <button
+        type="button"
+        className="select multi-select__trigger"
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        title={selected.join("、") || undefined}
+        onClick={() => setOpen(value => !value)}
+      >
+        {label}：{summary}
+      </button>
+      {open && (
+        <div className="multi-select__panel">
+          <input
+            className="select multi-select__search"
+            type="search"
+            placeholder={`搜尋${label}`}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            autoFocus
+          />
+          <div className="multi-select__actions">
+            <button type="button" className="btn btn--link" onClick={selectVisible} disabled={!visible.length}>
+              {query.trim() ? "全選搜尋結果" : "全選"}
+            </button>
+            <button type="button" className="btn btn--link" onClick={() => onChange([])} disabled={!selected.length}>清除</button>
+          </div>
+          <ul className="multi-select__list" role="listbox" aria-multiselectable="true">
+            {visible.map(name => {
+              const pinned = favorites.includes(name);
+              return (
+                <li key={name} className="multi-select__option">
+                  <label>
+                    <input type="checkbox" checked={selected.includes(name)} onChange={() => toggle(name)} />
+                    <span>{name}</span>
+                  </label>
+                  <button
+                    type="button"
+                    className={`multi-select__pin${pinned ? " multi-select__pin--active" : ""}`}
+                    aria-label={pinned ? `取消釘選 ${name}` : `釘選 ${name}`}
+                    aria-pressed={pinned}
+                    onClick={() => onToggleFavorite(name)}
+                  >
+                    {pinned ? "★" : "☆"}
+                  </button>
+                </li>
+              );
+            })}
+            {!visible.length && <li className="multi-select__empty">沒有符合的項目</li>}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import dayjs from "dayjs";
+import {
+  PRESET_LABELS,
+  quarterOf,
+  weekStart,
+  type RangePreset,
+  type RangeSelection,
+  type ResolvedRange,
+} from "./dateRange";
+
+type Props = {
+  value: RangeSelection;
+  // 目前選擇換算後的區間，用於顯示預設區間的實際日期與自訂的初始值
+  range: ResolvedRange;
+  // 有資料的日期（已排序），決定各下拉選單的選項
+  dates: string[];
+  onChange: (value: RangeSelection) => void;
+};
+
+const PRESETS = Object.keys(PRESET_LABELS) as RangePreset[];
+
+const kindValue = (value: RangeSelection) => (value.kind === "preset" ? `preset:${value.preset}` : value.kind);
+
+export default function RangePicker({ value, range, dates, onChange }: Props) {
+  const options = useMemo(() => {
+    const monthsByYear = new Map<string, string[]>();
+    const weeksByYear = new Map<string, string[]>();
+    for (const date of dates) {
+      const year = date.slice(0, 4);
+      const month = date.slice(0, 7);
+      const week = weekStart(date);
+      // 跨年的週歸在週一所在的年份
+      const weekYear = week.slice(0, 4);
+      if (!monthsByYear.has(year)) monthsByYear.set(year, []);
+      if (!weeksByYear.has(weekYear)) weeksByYear.set(weekYear, []);
+      const months = monthsByYear.get(year)!;
+      const weeks = weeksByYear.get(weekYear)!;
+      if (months[months.length - 1] !== month) months.push(month);
+      if (weeks[weeks.length - 1] !== week) weeks.push(week);
+    }
+    return { years: Array.from(monthsByYear.keys()).sort(), monthsByYear, weeksByYear };
+  }, [dates]);
+
+  const latest = dates.length ? dates[dates.length - 1] : dayjs().format("YYYY-MM-DD");
+
+  // 切換到某個年份時，預設選該年最後一個有資料的月、季、週
+  const forYear = (kind: "year" | "quarter" | "month" | "week", year: string): RangeSelection => {
+    const months = options.monthsByYear.get(year) ?? [];
+    const lastMonth = months[months.length - 1] ?? `${year}-01`;
+    if (kind === "year") return { kind, year };
+    if (kind === "quarter") return { kind, year, quarter: quarterOf(`${lastMonth}-01`) };
+    if (kind === "month") return { kind, month: lastMonth };
+    const weeks = options.weeksByYear.get(year) ?? [];
+    return { kind, start: weeks[weeks.length - 1] ?? weekStart(`${year}-01-01`) };
+  };
+
+  const changeKind = (next: string) => {
+    if (next.startsWith("preset:")) {
+      onChange({ kind: "preset", preset: next.slice("preset:".length) as RangePreset });
+      return;
+    }
+    if (next === "all") onChange({ kind: "all" });
+    else if (next === "custom") {
+      // 自訂區間從目前的區間開始調整
+      const start = range.start ?? dates[0] ?? latest;
+      onChange({ kind: "custom", start, end: range.end ?? latest });
+    } else {
+      const year = range.end && range.end <= latest ? range.end.slice(0, 4) : latest.slice(0, 4);
+      onChange(forYear(next as "year" | "quarter" | "month" | "week", year));
+    }
+  };
+
+  const yearKind =
+    value.kind === "year" || value.kind === "quarter" || value.kind === "month" || value.kind === "week" ? value.kind : null;
+  const selectedYear =
+    value.kind === "year" || value.kind === "quarter" ? value.year
+    : value.kind === "month" ? value.month.slice(0, 4)
+    : value.kind === "week" ? value.start.slice(0, 4)
+    : "";
+
+  return (
+    <div className="range-picker">
+      <div className="tool-actions">
+        <label className="label">期間</label>
+        <select className="select" value={kindValue(value)} onChange={e => changeKind(e.target.value)}>
+          <option value="all">全部期間</option>
+          <option value="year">年度</option>
+          <option value="quarter">季</option>
+          <option value="month">月份</option>
+          <option value="week">週</option>
+          {PRESETS.map(preset => <option key={preset} value={`preset:${preset}`}>{PRESET_LABELS[preset]}</option>)}
+          <option value="custom">自訂區間</option>
+        </select>
+      </div>
+      {yearKind && (
+        <div className="tool-actions">
+          <select className="select" value={selectedYear} onChange={e => onChange(forYear(yearKind, e.target.value))}>
+            {!options.years.includes(selectedYear) && <option value={selectedYear}>{selectedYear}</option>}
+            {options.years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        </div>
+      )}
+      {value.kind === "quarter" && (
+        <div className="tool-actions">
+          <select
+            className="select"
+            value={value.quarter}
+            onChange={e => onChange({ kind: "quarter", year: value.year, quarter: Number(e.target.value) })}
+          >
+            {[1, 2, 3, 4].map(q => <option key={q} value={q}>第 {q} 季</option>)}
+          </select>
+        </div>
+      )}
+      {value.kind === "month" && (
+        <div className="tool-actions">
+          <select className="select" value={value.month} onChange={e => onChange({ kind: "month", month: e.target.value })}>
+            {!(options.monthsByYear.get(selectedYear) ?? []).includes(value.month) && <option value={value.month}>{value.month}</option>}
+            {(options.monthsByYear.get(selectedYear) ?? []).map(m => (
+              <option key={m} value={m}>{dayjs(`${m}-01`).format("MM 月")}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {value.kind === "week" && (
+        <div className="tool-actions">
+          <select className="select" value={value.start} onChange={e => onChange({ kind: "week", start: e.target.value })}>
+            {!(options.weeksByYear.get(selectedYear) ?? []).includes(value.start) && <option value={value.start}>{value.start}</option>}
+            {(options.weeksByYear.get(selectedYear) ?? []).map(w => (
+              <option key={w} value={w}>{dayjs(w).format("MM/DD")} ~ {dayjs(w).add(6, "day").format("MM/DD")}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {value.kind === "custom" && (
+        <div className="tool-actions">
+          <input
+            className="select"
+            type="date"
+            aria-label="開始日期"
+            value={value.start}
+            max={value.end || undefined}
+            onChange={e => onChange({ ...value, start: e.target.value })}
+          />
+          <span className="label">至</span>
+          <input
+            className="select"
+            type="date"
+            aria-label="結束日期"
+            value={value.end}
+            min={value.start || undefined}
+            onChange={e => onChange({ ...value, end: e.target.value })}
+          />
+        </div>
+      )}
+      {value.kind === "preset" && range.start && range.end && (
+        <span className="label">{range.start} ~ {range.end}</span>
+      )}
+    </div>
+  );
+}
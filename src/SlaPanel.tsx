@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { describeRule, parseSlaRules, type SlaRule } from "./sla";
+import { saveSlaRules, useSlaRules } from "./useSlaRules";
+import { download } from "./download";
+
+type Props = {
+  // 目前資料中的分類、模組，作為輸入建議
+  categoryOptions: string[];
+  moduleOptions: string[];
+  onClose: () => void;
+};
+
+type DraftRule = { category: string; module: string; minutes: string };
+
+const toDraft = (rule: SlaRule): DraftRule => ({
+  category: rule.category ?? "",
+  module: rule.module ?? "",
+  minutes: String(rule.minutes),
+});
+
+export default function SlaPanel({ categoryOptions, moduleOptions, onClose }: Props) {
+  const rules = useSlaRules();
+  const [draft, setDraft] = useState<DraftRule[]>(() => rules.map(toDraft));
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const update = (index: number, patch: Partial<DraftRule>) => {
+    setDraft(prev => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  // 表單內容轉成規則；任一列的時限不是正數時無法套用
+  const parsed = (() => {
+    try {
+      return parseSlaRules(draft.map(rule => ({ ...rule, minutes: rule.minutes.trim() })));
+    } catch {
+      return null;
+    }
+  })();
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setDraft(parseSlaRules(JSON.parse(await file.text())).map(toDraft));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSave = () => {
+    if (!parsed) return;
+    saveSlaRules(parsed);
+    onClose();
+  };
+
+  return (
+    <>
+      <div
+        className="drawer-overlay active"
+        onClick={onClose}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      />
+      <div className="drawer open" role="dialog" aria-modal="true" aria-labelledby="sla-panel-title">
+        <div className="drawer-header">
+          <h3 id="sla-panel-title">SLA 規則設定</h3>
+          <button onClick={onClose} className="close-button" aria-label="關閉抽屜">×</button>
+        </div>
+        <div className="drawer-body">
+          <p>依分類、模組設定處理時限。同時指定分類與模組的規則優先，其次只指定其一的規則；分類、模組都留空即為預設時限。沒有規則適用的案件不列入達成率。規則只存在此瀏覽器。</p>
+          <datalist id="sla-category-options">
+            {categoryOptions.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <datalist id="sla-module-options">
+            {moduleOptions.map(name => <option key={name} value={name} />)}
+          </datalist>
+          {draft.map((rule, index) => (
+            <div className="source-row sla-rule" key={index}>
+              <div className="source-row__head">
+                <span className="source-row__label">
+                  {describeRule({ category: rule.category.trim() || null, module: rule.module.trim() || null, minutes: 0 })}
+                </span>
+                <button className="btn btn--link" onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}>刪除</button>
+              </div>
+              <div className="sla-rule__fields">
+                <input
+                  className="source-row__input"
+                  list="sla-category-options"
+                  placeholder="分類（不限）"
+                  aria-label="分類"
+                  value={rule.category}
+                  onChange={(e) => update(index, { category: e.target.value })}
+                />
+                <input
+                  className="source-row__input"
+                  list="sla-module-options"
+                  placeholder="模組（不限）"
+                  aria-label="模組"
+                  value={rule.module}
+                  onChange={(e) => update(index, { module: e.target.value })}
+                />
+                <label className="source-row__refresh">
+                  <input
+                    className="source-row__input sla-rule__minutes"
+                    type="number"
+                    min={1}
+                    aria-label="時限（分鐘）"
+                    value={rule.minutes}
+                    onChange={(e) => update(index, { minutes: e.target.value })}
+                  />
+                  分鐘內
+                </label>
+              </div>
+            </div>
+          ))}
+          {!draft.length && <p className="source-row__hint">尚未設定任何規則</p>}
+          <div className="actions source-panel__actions">
+            <button className="btn" onClick={() => setDraft(prev => [...prev, { category: "", module: "", minutes: "30" }])}>新增規則</button>
+            <label className="btn">
+              匯入 JSON
+              <input
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  importFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              className="btn"
+              onClick={() => download("sla-rules.json", new Blob([JSON.stringify({ rules: parsed ?? [] }, null, 2)], { type: "application/json" }))}
+              disabled={!parsed?.length}
+            >
+              匯出 JSON
+            </button>
+          </div>
+          {importError && <p className="card-source__warning">匯入失敗：{importError}</p>}
+          <div className="actions source-panel__actions">
+            <button className="btn" onClick={handleSave} disabled={!parsed}>套用</button>
+            <button className="btn" onClick={onClose}>取消</button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import CardStatus from "./CardStatus";
+import { DEFAULT_STAFFING, headcount, requiredAgents, type StaffingParams } from "./staffing";
+import type { VolumeProfile } from "./aggregate";
+import type { DatasetKey } from "./sources";
+import type { DatasetStatus } from "./useSheets";
+import { downloadCsv } from "./download";
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from "./calendar";
+
+type Props = {
+  profile: VolumeProfile;
+  status: Record<DatasetKey, DatasetStatus>;
+  computing: boolean;
+  rangeLabel: string;
+  exportKey: string;
+};
+
+const PARAM_FIELDS: Array<{ key: keyof StaffingParams; label: string; min: number; max?: number; step?: number }> = [
+  { key: "serviceLevel", label: "目標服務水準(%)", min: 1, max: 99 },
+  { key: "answerSeconds", label: "應答時間(秒)", min: 0 },
+  { key: "shrinkage", label: "耗損率(%)", min: 0, max: 90 },
+  { key: "shiftHours", label: "班別時數", min: 1, max: 24, step: 0.5 },
+];
+
+const round = (value: number, digits = 1) => +value.toFixed(digits);
+
+export default function StaffingCard({ profile, status, computing, rangeLabel, exportKey }: Props) {
+  const [params, setParams] = useState<StaffingParams>(DEFAULT_STAFFING);
+  // 使用者輸入的預估每日件數，空白時沿用歷史平均
+  const [expected, setExpected] = useState<Record<number, string>>({});
+  const { aht, hourly } = profile;
+
+  const rows = useMemo(() => {
+    if (aht == null) return [];
+    return WEEKDAY_ORDER.filter(day => profile.days[day] > 0).map(day => {
+      const average = profile.byWeekday[day] / profile.days[day];
+      const input = Number(expected[day]);
+      const volume = expected[day]?.trim() && Number.isFinite(input) && input >= 0 ? input : average;
+      if (!hourly) {
+        // 沒有時間資料時，假設進件平均分佈在一個班別內
+        const estimate = requiredAgents(volume / params.shiftHours, aht, params);
+        return {
+          day,
+          average,
+          volume,
+          peakAgents: estimate.agents,
+          agentHours: estimate.agents * params.shiftHours,
+          serviceLevel: estimate.serviceLevel,
+          occupancy: estimate.occupancy,
+          hours: [] as Array<{ hour: number; calls: number; agents: number; serviceLevel: number; occupancy: number }>,
+        };
+      }
+      // 依歷史的小時分佈拆分當日件數（沒有時間的列按比例分攤）
+      const timedTotal = profile.byHour[day].reduce((sum, count) => sum + count, 0);
+      const hours = profile.byHour[day]
+        .map((count, hour) => ({ hour, calls: timedTotal ? (count / timedTotal) * volume : 0 }))
+        .filter(item => item.calls > 0)
+        .map(item => ({ ...item, ...requiredAgents(item.calls, aht, params) }));
+      const agentHours = hours.reduce((sum, item) => sum + item.agents, 0);
+      const handled = hours.reduce((sum, item) => sum + item.calls, 0);
+      return {
+        day,
+        average,
+        volume,
+        peakAgents: hours.reduce((max, item) => Math.max(max, item.agents), 0),
+        agentHours,
+        // 以件數加權的整日服務水準
+        serviceLevel: handled ? hours.reduce((sum, item) => sum + item.serviceLevel * item.calls, 0) / handled : 100,
+        occupancy: agentHours ? (hours.reduce((sum, item) => sum + item.traffic, 0) / agentHours) * 100 : 0,
+        hours,
+      };
+    });
+  }, [profile, aht, hourly, expected, params]);
+
+  // 小時明細只列出有進件的時段
+  const hourKeys = useMemo(() => {
+    const keys = new Set(rows.flatMap(row => row.hours.map(item => item.hour)));
+    return Array.from(keys).sort((a, b) => a - b);
+  }, [rows]);
+
+  // 每個星期一列與表格相同的彙總；逐時估算時其後接著各時段的在線人數
+  const exportRows = () =>
+    rows.flatMap(row => [
+      {
+        weekday: WEEKDAY_LABELS[row.day],
+        ...(hourly ? { hour: "全日" } : {}),
+        average: round(row.average),
+        calls: round(row.volume),
+        agents: row.peakAgents,
+        agentHours: round(row.agentHours),
+        headcount: headcount(row.agentHours, params),
+        serviceLevel: round(row.serviceLevel),
+        occupancy: round(row.occupancy),
+      },
+      ...row.hours.map(item => ({
+        weekday: WEEKDAY_LABELS[row.day],
+        hour: `${String(item.hour).padStart(2, "0")}:00`,
+        calls: round(item.calls),
+        agents: item.agents,
+        serviceLevel: round(item.serviceLevel),
+        occupancy: round(item.occupancy),
+      })),
+    ]);
+
+  return (
+    <div className="card">
+      <div className="card-head">
+        <div className="card-title">人力估算（Erlang C）{rangeLabel ? ` - ${rangeLabel}` : ""}</div>
+        <div className="actions">
+          <button
+            className="btn"
+            onClick={() => downloadCsv(`staffing-${exportKey}.csv`, exportRows())}
+            disabled={!rows.length}
+          >
+            匯出 CSV
+          </button>
+        </div>
+      </div>
+      <CardStatus status={status} datasets={["calls"]} computing={computing}>
+        <div className="staffing-params">
+          {PARAM_FIELDS.map(field => (
+            <label key={field.key} className="staffing-params__field">
+              <span className="label">{field.label}</span>
+              <input
+                className="source-row__input"
+                type="number"
+                min={field.min}
+                max={field.max}
+                step={field.step ?? 1}
+                value={params[field.key]}
+                onChange={e => {
+                  const value = Number(e.target.value);
+                  if (!Number.isFinite(value)) return;
+                  const clamped = Math.min(Math.max(value, field.min), field.max ?? Infinity);
+                  setParams(prev => ({ ...prev, [field.key]: clamped }));
+                }}
+              />
+            </label>
+          ))}
+        </div>
+        {aht == null ? (
+          <div className="empty">目前期間沒有處理時間（resolve_minute）資料，無法估算</div>
+        ) : !rows.length ? (
+          <div className="empty">目前期間沒有資料</div>
+        ) : (
+          <>
+            <div className="data-table">
+              <table>
+                <thead>
+                  <tr>
+                    <th>星期</th>
+                    <th>歷史平均件數</th>
+                    <th>預估件數</th>
+                    <th>{hourly ? "尖峰在線人數" : "在線人數"}</th>
+                    <th>在線人時</th>
+                    <th>排班人數</th>
+                    <th>服務水準</th>
+                    <th>忙碌率</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.day}>
+                      <td>{WEEKDAY_LABELS[row.day]}</td>
+                      <td>{round(row.average)}</td>
+                      <td>
+                        <input
+                          className="source-row__input data-table__input"
+                          type="number"
+                          min={0}
+                          aria-label={`${WEEKDAY_LABELS[row.day]}預估件數`}
+                          placeholder={String(round(row.average))}
+                          value={expected[row.day] ?? ""}
+                          onChange={e => setExpected(prev => ({ ...prev, [row.day]: e.target.value }))}
+                        />
+                      </td>
+                      <td>{row.peakAgents}</td>
+                      <td>{round(row.agentHours)}</td>
+                      <td>{headcount(row.agentHours, params)}</td>
+                      <td>{round(row.serviceLevel)}%</td>
+                      <td>{round(row.occupancy)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {hourly && hourKeys.length > 0 && (
+              <div className="data-table">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>時段（在線人數）</th>
+                      {rows.map(row => <th key={row.day}>{WEEKDAY_LABELS[row.day]}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {hourKeys.map(hour => (
+                      <tr key={hour}>
+                        <td>{String(hour).padStart(2, "0")}:00</td>
+                        {rows.map(row => (
+                          <td key={row.day}>{row.hours.find(item => item.hour === hour)?.agents ?? "-"}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="card-source">
+              平均處理時間 {aht.toFixed(1)} 分鐘；
+              {hourly
+                ? "依 call_time 的小時分佈逐時估算，排班人數為在線人時換算班數後加計耗損"
+                : "call_time 沒有時間資料，假設進件平均分佈在一個班別內"}
+              ；預估件數留空時使用歷史平均
+            </div>
+          </>
+        )}
+      </CardStatus>
+    </div>
+  );
+}
@@ -0,0 +1,1124 @@
+import type { AvgDurationRow, CallRow, CategoryTrendRow, ModuleMonthRow, TrendRow } from "./schema";
+import { deriveAvgDuration, deriveModuleByMonth } from "./derive";
+import { inRange, monthOverlaps, type DateRange } from "./dateRange";
+import { slaTarget, type SlaRule } from "./sla";
+
+// 案件明細的彙總計算：純函式，可在 Web Worker 或主執行緒執行。
+// 結果以索引（calls 陣列位置）指回明細，避免在執行緒間來回複製整份資料。
+
+export type CallFacts = Omit<CallRow, "source">;
+
+export type DurationMetric = "count" | "percentage";
+// auto：平方根法則 4～12 等寬區間；fixed：內建切點；log：1-2-5 倍數的對數區間；custom：使用者自訂切點
+export type DurationBinMode = "auto" | "fixed" | "log" | "custom";
+export type DurationGroupBy = "none" | "category" | "module";
+
+export type DurationParams = {
+  metric: DurationMetric;
+  binMode: DurationBinMode;
+  // 自訂分箱的切點（分鐘）
+  cuts: number[];
+  // 聚焦範圍（分鐘）；範圍外的案件併入頭尾兩個開放區間
+  focus: DurationFocus | null;
+  // 分組維度；要看哪些模組、分類由全域的 CrossFilter 決定
+  groupBy: DurationGroupBy;
+  facet: boolean;
+};
+
+export type DurationFocus = { min: number; max: number };
+
+export type CallFilter = DateRange & {
+  // 堆疊圖逐日（否則逐月）彙總
+  daily: boolean;
+};
+
+// 全域交叉篩選：同一維度內任一符合即可，不同維度須同時符合；空陣列表示不限
+export type CrossFilter = {
+  modules: string[];
+  categories: string[];
+  // dayjs 的 day()：0 = 週日
+  weekdays: number[];
+};
+
+export const EMPTY_CROSS_FILTER: CrossFilter = { modules: [], categories: [], weekdays: [] };
+
+export const hasCrossFilter = (filter: CrossFilter) =>
+  filter.modules.length > 0 || filter.categories.length > 0 || filter.weekdays.length > 0;
+
+export type CallsViewParams = {
+  filter: CallFilter;
+  cross: CrossFilter;
+  // 比較模式的基準期間；處理時間分佈並列基準期間的件數
+  compare: DateRange | null;
+  sla: SlaRule[];
+  duration: DurationParams;
+  // 處理時間趨勢的分組維度
+  trendGroupBy: DurationGroupBy;
+};
+
+// 直方圖每個區間一列：固定欄位之外，每個系列以 key 存放數值
+export type DurationChartRow = Record<string, unknown> & {
+  label: string;
+  total: number;
+  __counts: Record<string, number>;
+  __percents: Record<string, number>;
+};
+
+export type DurationBucketDetail = {
+  label: string;
+  groupLabel: string | null;
+  min: number;
+  max: number | null;
+  rows: number[];
+};
+
+type DurationRow = {
+  minutes: number;
+  category: string;
+  module: string;
+  source: number;
+};
+
+type DurationBase = {
+  rows: DurationRow[];
+  missing: number[];
+};
+
+export const CATEGORY_COLOR_PALETTE = ["#0ea5e9", "#22c55e", "#f97316", "#8b5cf6", "#f43f5e", "#14b8a6"];
+export const DURATION_OTHERS_KEY = "其他";
+// 比較模式下基準期間的序列鍵
+export const DURATION_BASELINE_KEY = "__baseline";
+const BASELINE_COLOR = "#94a3b8";
+
+// 分類數量不固定（分類趨勢表可有任意欄位），色盤用完後以黃金角分散色相
+export const categoryColor = (index: number) =>
+  index < CATEGORY_COLOR_PALETTE.length
+    ? CATEGORY_COLOR_PALETTE[index]
+    : `hsl(${Math.round((index * 137.5) % 360)}, 65%, 50%)`;
+
+const FIXED_DURATION_CUTS = [0, 3, 5, 10, 15, 20, 30, 45, 60, 90, 120, 180];
+
+// 分鐘數依大小換成小時或天，長尾（數天）的區間標籤才讀得懂
+const formatMinutes = (value: number, unit: "分" | "小時" | "天") => {
+  if (unit === "分") return String(Math.round(value));
+  return String(Number((value / (unit === "小時" ? 60 : 1440)).toFixed(1)));
+};
+
+const durationUnit = (value: number) => (value < 600 ? "分" : value < 2880 ? "小時" : "天");
+
+const formatDurationLabel = (min: number, max: number | null) => {
+  const unit = durationUnit(max ?? min);
+  if (max == null) return `${formatMinutes(min, unit)}+ ${unit}`;
+  const roundedMin = formatMinutes(min, unit);
+  const roundedMax = formatMinutes(max, unit);
+  if (roundedMin === roundedMax) return `${roundedMin} ${unit}`;
+  return `${roundedMin}-${roundedMax} ${unit}`;
+};
+
+/** 整理使用者輸入的切點：去除重複與負值並排序。 */
+export const normalizeCuts = (cuts: number[]) =>
+  Array.from(new Set(cuts.filter(value => Number.isFinite(value) && value >= 0))).sort((a, b) => a - b);
+
+/** 1、2、5 倍數的切點，涵蓋到 max。 */
+const logCuts = (max: number) => {
+  const cuts = [0];
+  for (let decade = 1; decade <= Math.max(max, 1); decade *= 10) {
+    for (const step of [1, 2, 5]) {
+      if (decade * step <= max) cuts.push(decade * step);
+    }
+  }
+  return cuts;
+};
+
+/** 以切點建立區間，最後一個切點之後為開放區間；聚焦時裁切到範圍內。 */
+const binsFromCuts = (cuts: number[], focus: DurationFocus | null) => {
+  const edges = normalizeCuts(cuts);
+  if (edges[0] !== 0) edges.unshift(0);
+  const bins: Array<{ min: number; max: number | null; label: string }> = [];
+  edges.forEach((start, index) => {
+    const end = index + 1 < edges.length ? edges[index + 1] : null;
+    const min = focus ? Math.max(start, focus.min) : start;
+    const max = focus ? Math.min(end ?? Infinity, focus.max) : end;
+    if (max != null && max <= min) return;
+    bins.push({ min, max, label: formatDurationLabel(min, max) });
+  });
+  return bins;
+};
+
+const sortedNames = (totals: Map<string, number>) =>
+  Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00`).getDay();
+
+function matchesCross(row: CallFacts, cross: CrossFilter) {
+  if (cross.modules.length && !cross.modules.includes(row.module)) return false;
+  if (cross.categories.length && !cross.categories.includes(row.category)) return false;
+  // 依星期篩選時，沒有 call_time 的列無法判斷而排除
+  if (cross.weekdays.length && (!row.date || !cross.weekdays.includes(weekdayOf(row.date)))) return false;
+  return true;
+}
+
+/** 依期間與交叉篩選條件篩選案件，回傳符合條件的索引。 */
+export function filterCalls(calls: CallFacts[], filter: CallFilter, cross: CrossFilter = EMPTY_CROSS_FILTER): number[] {
+  const out: number[] = [];
+  const unbounded = !filter.start && !filter.end;
+  const crossed = hasCrossFilter(cross);
+  calls.forEach((row, index) => {
+    // 沒有 call_time 的列只知道月份，月份與區間有交集即納入
+    if (!unbounded && !(row.date ? inRange(row.date, filter) : monthOverlaps(row.month, filter))) return;
+    if (crossed && !matchesCross(row, cross)) return;
+    out.push(index);
+  });
+  return out;
+}
+
+/**
+ * 交叉篩選後的子集合：趨勢與月彙總表無法拆分，改由明細重新計算。
+ * 點選來源的圖表不套用自己那個維度的篩選（星期圖仍列出每一天、模組排行仍列出其他模組），
+ * 才能在同一張圖上繼續加選；星期篩選由畫面套用在每日趨勢上。
+ */
+export type CallSubset = {
+  // 依模組、分類篩選；為 null 表示沒有這兩個維度的篩選，沿用原本的每日趨勢
+  trend: TrendRow[] | null;
+  // 依分類、星期篩選
+  moduleByMonth: ModuleMonthRow[];
+  // 套用全部篩選
+  avgDuration: AvgDurationRow[];
+};
+
+/** 子集合的每日件數涵蓋整份明細的日期範圍（不受期間篩選影響，移動平均才連續），沒有件數的日期補 0。 */
+function buildSubset(calls: CallFacts[], cross: CrossFilter): CallSubset {
+  const byDimension = { modules: [], categories: cross.categories, weekdays: cross.weekdays };
+  const byGroup = { modules: cross.modules, categories: cross.categories, weekdays: [] };
+  const splitTrend = cross.modules.length > 0 || cross.categories.length > 0;
+  const forModules: CallFacts[] = [];
+  const forDuration: CallFacts[] = [];
+  const counts = new Map<string, number>();
+  let from: string | null = null;
+  let to: string | null = null;
+  for (const row of calls) {
+    if (row.date) {
+      if (!from || row.date < from) from = row.date;
+      if (!to || row.date > to) to = row.date;
+    }
+    if (matchesCross(row, byDimension)) forModules.push(row);
+    if (matchesCross(row, cross)) forDuration.push(row);
+    if (splitTrend && row.date && matchesCross(row, byGroup)) counts.set(row.date, (counts.get(row.date) ?? 0) + 1);
+  }
+  let trend: TrendRow[] | null = null;
+  if (splitTrend) {
+    trend = [];
+    if (from && to) {
+      const end = new Date(`${to}T00:00:00`);
+      for (const d = new Date(`${from}T00:00:00`); d <= end; d.setDate(d.getDate() + 1)) {
+        const date = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+        trend.push({ date, count: counts.get(date) ?? 0 });
+      }
+    }
+  }
+  return { trend, moduleByMonth: deriveModuleByMonth(forModules), avgDuration: deriveAvgDuration(forDuration) };
+}
+
+function buildDurationBase(calls: CallFacts[], indices: number[]): DurationBase {
+  const rows: DurationRow[] = [];
+  const missing: number[] = [];
+
+  for (const index of indices) {
+    const row = calls[index];
+    const { category, module: moduleName } = row;
+
+    if (row.resolveMinute == null) {
+      missing.push(index);
+      continue;
+    }
+
+    const minutes = Math.max(0, row.resolveMinute);
+    rows.push({ minutes, category, module: moduleName, source: index });
+  }
+
+  return { rows, missing };
+}
+
+function buildCategoryStack(calls: CallFacts[], indices: number[], daily: boolean) {
+  const filteredCalls = indices.map(index => calls[index]);
+  if (!filteredCalls.length) {
+    return {
+      data: [] as Array<Record<string, number | string>>,
+      keys: [] as string[],
+      isDaily: daily,
+    };
+  }
+
+  const useDaily = daily;
+  const aggregate = new Map<string, Map<string, number>>();
+  const totals = new Map<string, number>();
+
+  for (const row of filteredCalls) {
+    const bucketKey = useDaily && row.date ? row.date : row.month;
+    const { category } = row;
+
+    if (!aggregate.has(bucketKey)) aggregate.set(bucketKey, new Map());
+    const bucket = aggregate.get(bucketKey)!;
+    bucket.set(category, (bucket.get(category) ?? 0) + 1);
+
+    totals.set(category, (totals.get(category) ?? 0) + 1);
+  }
+
+  if (!aggregate.size) {
+    return {
+      data: [] as Array<Record<string, number | string>>,
+      keys: [] as string[],
+      isDaily: useDaily,
+    };
+  }
+
+  const topCategories = Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([key]) => key);
+
+  const sortedKeys = Array.from(aggregate.keys()).sort((a, b) => a.localeCompare(b));
+
+  const dataRows = sortedKeys.map(periodKey => {
+    const bucket = aggregate.get(periodKey)!;
+    const row: Record<string, number | string> = { period: periodKey };
+
+    for (const [category, count] of bucket.entries()) {
+      if (topCategories.includes(category)) {
+        row[category] = count;
+      }
+    }
+
+    return row;
+  });
+
+  const keys = [...topCategories];
+
+  return { data: dataRows, keys, isDaily: useDaily };
+}
+
+function buildDurationChart(
+  base: DurationBase,
+  params: DurationParams,
+  cross: CrossFilter,
+  slaRules: SlaRule[] = [],
+  baselineRows: DurationRow[] | null = null,
+) {
+  const {
+    metric: durationMetric,
+    binMode: durationBinMode,
+    cuts: durationCuts,
+    focus,
+    groupBy: durationGroupBy,
+    facet: durationFacetEnabled,
+  } = params;
+  const { rows: allRows, missing } = base;
+  const groupLabel = durationGroupBy === "category" ? "分類" : durationGroupBy === "module" ? "模組" : null;
+
+  if (!allRows.length) {
+    return {
+      rows: [] as DurationChartRow[],
+      csvRows: [] as Array<Record<string, string | number>>,
+      seriesKeys: [] as string[],
+      colorMap: new Map<string, string>(),
+      bucketDetails: new Map<string, { label: string; groupLabel: string | null; min: number; max: number | null; rows: number[] }>(),
+      totalCount: 0,
+      mean: null as number | null,
+      median: null as number | null,
+      meanLabel: null as string | null,
+      medianLabel: null as string | null,
+      missingCount: missing.length,
+      missingRows: missing,
+      groupLabel,
+      facet: false,
+      groupDisplay: new Map<string, string>(),
+      slaLines: [] as Array<{ label: string; minutes: number[] }>,
+    };
+  }
+
+  const focusLimit = focus?.max ?? null;
+  // 下限為 0 時沒有低於下限的案件，不另列區間
+  const focusFloor = focus && focus.min > 0 ? focus.min : null;
+  const usingCategory = durationGroupBy === "category";
+  const usingModule = durationGroupBy === "module";
+  const groupField = usingCategory ? "category" : usingModule ? "module" : null;
+
+  // 案件已依 CrossFilter 篩選，這裡只需知道分組維度選了哪些項目
+  const activeRows = allRows;
+  const selection = usingCategory ? cross.categories : usingModule ? cross.modules : [];
+
+  const selectedDisplayName =
+    !selection.length ? "全部"
+    : selection.length <= 3 ? selection.join("、")
+    : `已選 ${selection.length} 項`;
+
+  if (!activeRows.length) {
+    return {
+      rows: [] as DurationChartRow[],
+      csvRows: [] as Array<Record<string, string | number>>,
+      seriesKeys: ["__all"],
+      colorMap: new Map<string, string>([["__all", CATEGORY_COLOR_PALETTE[0]]]),
+      bucketDetails: new Map<string, { label: string; groupLabel: string | null; min: number; max: number | null; rows: number[] }>(),
+      totalCount: 0,
+      mean: null as number | null,
+      median: null as number | null,
+      meanLabel: null as string | null,
+      medianLabel: null as string | null,
+      missingCount: missing.length,
+      missingRows: missing,
+      groupLabel,
+      facet: false,
+      groupDisplay: new Map<string, string>([["__all", selectedDisplayName]]),
+      slaLines: [] as Array<{ label: string; minutes: number[] }>,
+    };
+  }
+
+  const valuesSorted = [...activeRows].map(row => row.minutes).sort((a, b) => a - b);
+  const totalCount = valuesSorted.length;
+  const mean = valuesSorted.reduce((sum, value) => sum + value, 0) / totalCount;
+  const median =
+    totalCount % 2 === 0
+      ? (valuesSorted[totalCount / 2 - 1] + valuesSorted[totalCount / 2]) / 2
+      : valuesSorted[Math.floor(totalCount / 2)];
+
+  const valuesForBins = activeRows
+    .filter(row => (focusLimit == null || row.minutes <= focusLimit) && (focusFloor == null || row.minutes >= focusFloor))
+    .map(row => row.minutes);
+  const overLimitRows = focusLimit == null
+    ? [] as DurationRow[]
+    : activeRows.filter(row => row.minutes > focusLimit);
+  const underLimitRows = focusFloor == null
+    ? [] as DurationRow[]
+    : activeRows.filter(row => row.minutes < focusFloor);
+
+  const buildCutBins = (cuts: number[], limit: number | null) => {
+    let bins = binsFromCuts(cuts, focus);
+    if (!bins.length) {
+      const max = limit != null ? limit : valuesSorted[valuesSorted.length - 1];
+      const safeMax = Number.isFinite(max) ? max : 30;
+      bins = [{ min: 0, max: safeMax, label: formatDurationLabel(0, safeMax) }];
+    }
+    return bins;
+  };
+
+  const buildAutoBins = (limit: number | null) => {
+    if (!valuesForBins.length) {
+      const fallback = limit != null ? limit : valuesSorted[valuesSorted.length - 1];
+      const safeMax = Number.isFinite(fallback) ? fallback : 30;
+      return [{ min: 0, max: safeMax, label: formatDurationLabel(0, safeMax) }];
+    }
+    const minValue = Math.min(...valuesForBins);
+    const maxValue = Math.max(...valuesForBins);
+    if (minValue === maxValue) {
+      const width = Math.max(1, minValue);
+      const lower = Math.max(0, minValue - width / 2);
+      return [{ min: lower, max: minValue + width / 2, label: formatDurationLabel(lower, minValue + width / 2) }];
+    }
+    const span = Math.max(maxValue - minValue, 1);
+    const desiredBins = Math.min(12, Math.max(4, Math.ceil(Math.sqrt(valuesForBins.length))));
+    const width = span / desiredBins;
+    const bins: Array<{ min: number; max: number; label: string }> = [];
+    let start = minValue;
+    for (let i = 0; i < desiredBins; i += 1) {
+      const end = i === desiredBins - 1 ? maxValue : start + width;
+      bins.push({ min: start, max: end, label: formatDurationLabel(start, end) });
+      start = end;
+    }
+    return bins;
+  };
+
+  const maxValue = valuesSorted[valuesSorted.length - 1];
+  const baseBins =
+    durationBinMode === "fixed" ? buildCutBins(FIXED_DURATION_CUTS, focusLimit)
+    : durationBinMode === "log" ? buildCutBins(logCuts(focusLimit ?? maxValue), focusLimit)
+    : durationBinMode === "custom" && durationCuts.length ? buildCutBins(durationCuts, focusLimit)
+    : buildAutoBins(focusLimit);
+
+  // 低於聚焦下限的案件放在最前面的區間
+  const underLimitBin = focusFloor != null && underLimitRows.length
+    ? [{ min: 0, max: focusFloor, label: `< ${formatDurationLabel(focusFloor, focusFloor)}` }]
+    : [];
+  const underLimitIndex = underLimitBin.length ? 0 : null;
+  const binSummaries = [...underLimitBin, ...baseBins].map((bin, index) => ({
+    ...bin,
+    key: "bin-" + index,
+    counts: new Map<string, number>(),
+    total: 0,
+  }));
+
+  let overLimitIndex: number | null = null;
+  if (focusLimit != null && overLimitRows.length) {
+    overLimitIndex = binSummaries.length;
+    binSummaries.push({
+      min: focusLimit,
+      max: null,
+      label: formatDurationLabel(focusLimit, null),
+      key: "bin-" + binSummaries.length,
+      counts: new Map<string, number>(),
+      total: 0,
+    });
+  }
+
+  const getRowGroup = (row: DurationRow) => {
+    if (groupField === "category") return row.category;
+    if (groupField === "module") return row.module;
+    return "__all";
+  };
+
+  const facet = durationFacetEnabled && groupField !== null;
+  const groupTotals = new Map<string, number>();
+  const colorMap = new Map<string, string>();
+  const groupDisplay = new Map<string, string>();
+
+  let groupKeys: string[] = [];
+  let topGroupSet: Set<string> | null = null;
+
+  if (facet && selection.length) {
+    // 有選定項目時分面只列出選定的項目（依選取順序），不自動取前五名
+    groupKeys = [...selection];
+    topGroupSet = new Set(selection);
+    for (const key of groupKeys) groupDisplay.set(key, key);
+  } else if (facet) {
+    // 未選定項目時取件數前五名，其餘併入「其他」
+    const totalsByGroup = new Map<string, number>();
+    for (const row of activeRows) {
+      const key = getRowGroup(row);
+      totalsByGroup.set(key, (totalsByGroup.get(key) ?? 0) + 1);
+    }
+    const sortedGroups = Array.from(totalsByGroup.entries()).sort((a, b) => b[1] - a[1]);
+    const topGroups = sortedGroups.slice(0, 5).map(([key]) => key);
+    groupKeys = [...topGroups];
+    topGroupSet = new Set(topGroups);
+    const othersCount = sortedGroups.slice(5).reduce((sum, [, value]) => sum + value, 0);
+    if (othersCount > 0) {
+      groupKeys.push(DURATION_OTHERS_KEY);
+    }
+    for (const key of groupKeys) {
+      groupDisplay.set(key, key === DURATION_OTHERS_KEY ? DURATION_OTHERS_KEY : key);
+    }
+  } else {
+    groupKeys = ["__all"];
+    groupDisplay.set("__all", selectedDisplayName);
+  }
+
+  groupKeys.forEach((key, index) => {
+    colorMap.set(key, categoryColor(index));
+    groupTotals.set(key, 0);
+  });
+
+  // 基準期間套用同一組區間並列；分面時序列已多，不再加入
+  const baselineActive = baselineRows && !facet ? baselineRows : null;
+  if (baselineActive) {
+    groupKeys.push(DURATION_BASELINE_KEY);
+    groupDisplay.set(DURATION_BASELINE_KEY, "比較期間");
+    colorMap.set(DURATION_BASELINE_KEY, BASELINE_COLOR);
+    groupTotals.set(DURATION_BASELINE_KEY, 0);
+  }
+
+  const bucketDetails = new Map<string, { label: string; groupLabel: string | null; min: number; max: number | null; rows: number[] }>();
+
+  const getGroupKey = (row: DurationRow) => {
+    if (!facet) return "__all";
+    const value = getRowGroup(row);
+    if (topGroupSet && topGroupSet.has(value)) return value;
+    return DURATION_OTHERS_KEY;
+  };
+
+  const assignRowToBinIndex = (value: number) => {
+    if (overLimitIndex != null && focusLimit != null && value > focusLimit) {
+      return overLimitIndex;
+    }
+    if (underLimitIndex != null && focusFloor != null && value < focusFloor) {
+      return underLimitIndex;
+    }
+    const offset = underLimitBin.length;
+    for (let i = 0; i < baseBins.length; i += 1) {
+      const bin = baseBins[i];
+      const max = bin.max ?? Infinity;
+      const inclusive = i === baseBins.length - 1;
+      const upperBound = inclusive ? max + 1e-6 : max;
+      if (value >= bin.min && value < upperBound) {
+        return i + offset;
+      }
+    }
+    return baseBins.length - 1 + offset;
+  };
+
+  for (const row of activeRows) {
+    const groupKey = getGroupKey(row);
+    const binIndex = assignRowToBinIndex(row.minutes);
+    const summary = binSummaries[binIndex];
+    summary.counts.set(groupKey, (summary.counts.get(groupKey) ?? 0) + 1);
+    summary.total += 1;
+    groupTotals.set(groupKey, (groupTotals.get(groupKey) ?? 0) + 1);
+
+    const detailKey = binIndex + "|" + groupKey;
+    if (!bucketDetails.has(detailKey)) {
+      bucketDetails.set(detailKey, {
+        label: summary.label,
+        groupLabel: groupKey === "__all" ? null : (groupDisplay.get(groupKey) ?? groupKey),
+        min: summary.min,
+        max: summary.max ?? null,
+        rows: [],
+      });
+    }
+    bucketDetails.get(detailKey)!.rows.push(row.source);
+  }
+
+  for (const row of baselineActive ?? []) {
+    const binIndex = assignRowToBinIndex(row.minutes);
+    const summary = binSummaries[binIndex];
+    summary.counts.set(DURATION_BASELINE_KEY, (summary.counts.get(DURATION_BASELINE_KEY) ?? 0) + 1);
+    groupTotals.set(DURATION_BASELINE_KEY, (groupTotals.get(DURATION_BASELINE_KEY) ?? 0) + 1);
+
+    const detailKey = binIndex + "|" + DURATION_BASELINE_KEY;
+    if (!bucketDetails.has(detailKey)) {
+      bucketDetails.set(detailKey, {
+        label: summary.label,
+        groupLabel: "比較期間",
+        min: summary.min,
+        max: summary.max ?? null,
+        rows: [],
+      });
+    }
+    bucketDetails.get(detailKey)!.rows.push(row.source);
+  }
+
+  const overallTotal = activeRows.length;
+  const rows: DurationChartRow[] = [];
+  binSummaries.forEach((bin, index) => {
+    if (bin.total === 0 && !bin.counts.get(DURATION_BASELINE_KEY) && bin.max !== null && durationBinMode === "auto") {
+      return;
+    }
+    const countsRecord: Record<string, number> = {};
+    const percentRecord: Record<string, number> = {};
+    const record: DurationChartRow = {
+      label: bin.label,
+      bucketKey: String(index),
+      min: bin.min,
+      max: bin.max ?? null,
+      total: bin.total,
+      __counts: countsRecord,
+      __percents: percentRecord,
+    };
+    for (const key of groupKeys) {
+      const count = bin.counts.get(key) ?? 0;
+      countsRecord[key] = count;
+      const denominator = facet || key === DURATION_BASELINE_KEY ? (groupTotals.get(key) ?? 0) || 1 : overallTotal || 1;
+      const percent = denominator ? (count / denominator) * 100 : 0;
+      percentRecord[key] = percent;
+      record[key] = durationMetric === "count" ? count : Number(percent.toFixed(1));
+    }
+    rows.push(record);
+  });
+
+  const csvRows = rows.map(row => {
+    const base: Record<string, string | number> = {
+      區間: row.label,
+      總件數: row.total,
+    };
+    const counts = row.__counts;
+    const percents = row.__percents;
+    for (const key of groupKeys) {
+      const display = groupDisplay.get(key) ?? key;
+      base[display + "-件數"] = counts[key] ?? 0;
+      base[display + "-佔比(%)"] = Number((percents[key] ?? 0).toFixed(1));
+    }
+    return base;
+  });
+
+  if (missing.length) {
+    csvRows.push({
+      區間: "未填寫",
+      總件數: missing.length,
+      "全部-件數": missing.length,
+      "全部-佔比(%)": Number(((missing.length / (overallTotal + missing.length)) * 100).toFixed(1)),
+    });
+  }
+
+  const findLabelForValue = (value: number | null) => {
+    if (value == null) return null;
+    if (focusLimit != null && value > focusLimit && overLimitIndex != null) {
+      return binSummaries[overLimitIndex].label;
+    }
+    if (focusFloor != null && value < focusFloor && underLimitIndex != null) {
+      return binSummaries[underLimitIndex].label;
+    }
+    for (const bin of baseBins) {
+      const max = bin.max ?? Infinity;
+      if (value >= bin.min && value <= max + 1e-6) {
+        return bin.label;
+      }
+    }
+    return null;
+  };
+
+  const meanLabel = findLabelForValue(mean);
+  const medianLabel = findLabelForValue(median);
+
+  // SLA 時限線：目前案件適用的時限依件數取前三個，避免不同規則的線擠在一起
+  const targetCounts = new Map<number, number>();
+  if (slaRules.length) {
+    for (const row of activeRows) {
+      const target = slaTarget(slaRules, row);
+      if (target != null) targetCounts.set(target, (targetCounts.get(target) ?? 0) + 1);
+    }
+  }
+  // 落在同一個區間的時限合併成一條線
+  const linesByLabel = new Map<string, number[]>();
+  Array.from(targetCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .forEach(([minutes]) => {
+      const label = findLabelForValue(minutes);
+      if (label == null) return;
+      linesByLabel.set(label, [...(linesByLabel.get(label) ?? []), minutes].sort((a, b) => a - b));
+    });
+  const slaLines = Array.from(linesByLabel.entries()).map(([label, minutes]) => ({ label, minutes }));
+
+  return {
+    rows,
+    csvRows,
+    seriesKeys: groupKeys,
+    colorMap,
+    bucketDetails,
+    totalCount,
+    mean,
+    median,
+    meanLabel,
+    medianLabel,
+    missingCount: missing.length,
+    missingRows: missing,
+    groupLabel,
+    facet,
+    groupDisplay,
+    slaLines,
+  };
+}
+
+export const DURATION_PERCENTILES = [50, 75, 90, 95, 99] as const;
+const DURATION_ALL_COLOR = "#334155";
+// 累積分佈曲線的取樣點數
+const CDF_STEPS = 60;
+
+export type DurationStatRow = {
+  key: string;
+  name: string;
+  color: string;
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  q1: number;
+  median: number;
+  q3: number;
+  // 箱形圖的鬚：距四分位數 1.5 倍四分位距以內的最遠值，之外的算離群值
+  whiskerLow: number;
+  whiskerHigh: number;
+  outliers: number;
+  percentiles: Record<(typeof DURATION_PERCENTILES)[number], number>;
+};
+
+export type DurationStats = {
+  // 第一列為全部，依分組維度接著各組，比較模式最後是比較期間
+  groups: DurationStatRow[];
+  // 累積分佈：minutes 分鐘內處理完成的比例（%），欄位為各組的 key
+  cdf: Array<Record<string, number>>;
+};
+
+/** 已排序數列的分位數（線性內插）。 */
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/** 已排序數列中小於等於 value 的個數。 */
+const countAtMost = (sorted: number[], value: number) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+function describeDurations(key: string, name: string, color: string, values: number[]): DurationStatRow | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = (q3 - q1) * 1.5;
+  const inside = sorted.filter(value => value >= q1 - fence && value <= q3 + fence);
+  const percentiles = Object.fromEntries(
+    DURATION_PERCENTILES.map(p => [p, quantile(sorted, p / 100)]),
+  ) as DurationStatRow["percentiles"];
+  return {
+    key,
+    name,
+    color,
+    count: sorted.length,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    whiskerLow: inside[0],
+    whiskerHigh: inside[inside.length - 1],
+    outliers: sorted.length - inside.length,
+    percentiles,
+  };
+}
+
+/**
+ * 處理時間的百分位數、箱形圖與累積分佈。分組沿用分佈圖的分組維度（不論是否分面）：
+ * 有選定項目時列出選定的項目，否則取件數前五名，其餘併入「其他」。
+ */
+function buildDurationStats(
+  base: DurationBase,
+  params: DurationParams,
+  cross: CrossFilter,
+  baselineRows: DurationRow[] | null,
+): DurationStats {
+  const { rows } = base;
+  const field = params.groupBy === "category" ? "category" : params.groupBy === "module" ? "module" : null;
+  const series: DurationStatRow[] = [];
+  const values: number[][] = [];
+  const push = (key: string, name: string, color: string, list: number[]) => {
+    const row = describeDurations(key, name, color, list);
+    if (!row) return;
+    series.push(row);
+    values.push([...list].sort((a, b) => a - b));
+  };
+
+  push("__all", "全部", DURATION_ALL_COLOR, rows.map(row => row.minutes));
+  if (field && rows.length) {
+    const selection = field === "category" ? cross.categories : cross.modules;
+    const byGroup = new Map<string, number[]>();
+    for (const row of rows) {
+      const name = row[field];
+      if (!byGroup.has(name)) byGroup.set(name, []);
+      byGroup.get(name)!.push(row.minutes);
+    }
+    const names = selection.length
+      ? selection.filter(name => byGroup.has(name))
+      : Array.from(byGroup.entries()).sort((a, b) => b[1].length - a[1].length).slice(0, 5).map(([name]) => name);
+    names.forEach((name, index) => push(name, name, categoryColor(index), byGroup.get(name)!));
+    if (!selection.length) {
+      const kept = new Set(names);
+      const others = Array.from(byGroup.entries()).filter(([name]) => !kept.has(name)).flatMap(([, list]) => list);
+      push(DURATION_OTHERS_KEY, DURATION_OTHERS_KEY, categoryColor(names.length), others);
+    }
+  }
+  if (baselineRows) push(DURATION_BASELINE_KEY, "比較期間", BASELINE_COLOR, baselineRows.map(row => row.minutes));
+
+  // 曲線畫到全部案件的 P99（聚焦時只畫聚焦範圍），避免極端值把曲線壓扁
+  const from = params.focus?.min ?? 0;
+  const limit = params.focus?.max ?? series[0]?.percentiles[99] ?? 0;
+  const cdf: Array<Record<string, number>> = [];
+  if (series.length && limit > from) {
+    for (let i = 0; i <= CDF_STEPS; i += 1) {
+      const minutes = Number((from + ((limit - from) * i) / CDF_STEPS).toFixed(2));
+      const point: Record<string, number> = { minutes };
+      series.forEach((row, index) => {
+        point[row.key] = Number(((countAtMost(values[index], minutes) / row.count) * 100).toFixed(1));
+      });
+      cdf.push(point);
+    }
+  }
+  return { groups: series, cdf };
+}
+
+export type DurationTrendPoint = {
+  count: number;
+  median: number;
+  p90: number;
+};
+
+export type DurationTrend = {
+  // 選定月份時逐日，否則逐月
+  daily: boolean;
+  // 第一個系列為全部，接著各組
+  series: Array<{ key: string; name: string; color: string }>;
+  // values 以系列 key 存放；該期沒有案件的系列不列出
+  rows: Array<{ period: string; values: Record<string, DurationTrendPoint> }>;
+};
+
+/**
+ * 處理時間的逐期中位數與 P90。分組時有選定項目就列出選定的項目，否則取件數前五名；
+ * 逐日彙總時沒有 call_time 日期的案件無法歸期而略過。
+ */
+function buildDurationTrend(
+  calls: CallFacts[],
+  base: DurationBase,
+  daily: boolean,
+  groupBy: DurationGroupBy,
+  cross: CrossFilter,
+): DurationTrend {
+  const field = groupBy === "category" ? "category" : groupBy === "module" ? "module" : null;
+  const byPeriod = new Map<string, Map<string, number[]>>();
+  const totals = new Map<string, number>();
+  const add = (period: string, key: string, minutes: number) => {
+    if (!byPeriod.has(period)) byPeriod.set(period, new Map());
+    const bucket = byPeriod.get(period)!;
+    if (!bucket.has(key)) bucket.set(key, []);
+    bucket.get(key)!.push(minutes);
+  };
+
+  for (const row of base.rows) {
+    const call = calls[row.source];
+    const period = daily ? call.date : call.month;
+    if (!period) continue;
+    add(period, "__all", row.minutes);
+    if (field) {
+      add(period, row[field], row.minutes);
+      totals.set(row[field], (totals.get(row[field]) ?? 0) + 1);
+    }
+  }
+
+  const selection = field === "category" ? cross.categories : field === "module" ? cross.modules : [];
+  const names = selection.length ? selection.filter(name => totals.has(name)) : sortedNames(totals).slice(0, 5);
+  const series = [
+    { key: "__all", name: "全部", color: DURATION_ALL_COLOR },
+    ...names.map((name, index) => ({ key: name, name, color: categoryColor(index) })),
+  ];
+  const rows = Array.from(byPeriod.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .map(period => {
+      const bucket = byPeriod.get(period)!;
+      const values: Record<string, DurationTrendPoint> = {};
+      for (const { key } of series) {
+        const list = bucket.get(key);
+        if (!list) continue;
+        const sorted = [...list].sort((a, b) => a - b);
+        values[key] = { count: sorted.length, median: quantile(sorted, 0.5), p90: quantile(sorted, 0.9) };
+      }
+      return { period, values };
+    });
+  return { daily, series, rows };
+}
+
+/**
+ * 由分類趨勢寬表建立堆疊面積圖資料：與明細版相同的期間切分（選定月份時逐日、否則逐月），
+ * 但列出表上所有分類，不只前五名。
+ */
+export function buildCategoryTrendStack(rows: CategoryTrendRow[], filter: CallFilter) {
+  const { daily } = filter;
+  const aggregate = new Map<string, Map<string, number>>();
+  const totals = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!inRange(row.date, filter)) continue;
+    const bucketKey = daily ? row.date : row.month;
+    if (!aggregate.has(bucketKey)) aggregate.set(bucketKey, new Map());
+    const bucket = aggregate.get(bucketKey)!;
+    for (const [category, count] of Object.entries(row.counts)) {
+      bucket.set(category, (bucket.get(category) ?? 0) + count);
+      totals.set(category, (totals.get(category) ?? 0) + count);
+    }
+  }
+
+  const keys = sortedNames(totals);
+  const data = Array.from(aggregate.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .map(periodKey => {
+      const row: Record<string, number | string> = { period: periodKey };
+      // 空白儲存格補 0，避免堆疊面積在缺值處斷開
+      const bucket = aggregate.get(periodKey)!;
+      for (const category of keys) row[category] = bucket.get(category) ?? 0;
+      return row;
+    });
+
+  return { data, keys, isDaily: daily };
+}
+
+export type SlaMonth = { month: string; evaluated: number; met: number; rate: number | null };
+export type SlaModuleBreach = { module: string; evaluated: number; breached: number };
+
+export type SlaSummary = {
+  // 有適用規則且有處理時間的案件數
+  evaluated: number;
+  met: number;
+  rate: number | null;
+  // 逾時案件的索引與適用時限，依超出分鐘數由多到少
+  breaches: Array<{ index: number; target: number }>;
+  monthly: SlaMonth[];
+  byModule: SlaModuleBreach[];
+  // 比較模式下基準期間的達成率
+  baselineRate: number | null;
+};
+
+function evaluateSla(calls: CallFacts[], indices: number[], rules: SlaRule[]) {
+  let evaluated = 0;
+  let met = 0;
+  const breaches: Array<{ index: number; target: number }> = [];
+  const monthly = new Map<string, SlaMonth>();
+  const byModule = new Map<string, SlaModuleBreach>();
+  for (const index of indices) {
+    const row = calls[index];
+    if (row.resolveMinute == null) continue;
+    const target = slaTarget(rules, row);
+    if (target == null) continue;
+    const ok = row.resolveMinute <= target;
+    evaluated += 1;
+    if (ok) met += 1;
+    else breaches.push({ index, target });
+    if (!monthly.has(row.month)) monthly.set(row.month, { month: row.month, evaluated: 0, met: 0, rate: null });
+    const month = monthly.get(row.month)!;
+    month.evaluated += 1;
+    if (ok) month.met += 1;
+    if (!byModule.has(row.module)) byModule.set(row.module, { module: row.module, evaluated: 0, breached: 0 });
+    const moduleStat = byModule.get(row.module)!;
+    moduleStat.evaluated += 1;
+    if (!ok) moduleStat.breached += 1;
+  }
+  const overBy = (item: { index: number; target: number }) => (calls[item.index].resolveMinute ?? 0) - item.target;
+  breaches.sort((a, b) => overBy(b) - overBy(a));
+  return {
+    evaluated,
+    met,
+    rate: evaluated ? (met / evaluated) * 100 : null,
+    breaches,
+    monthly: Array.from(monthly.values())
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map(item => ({ ...item, rate: item.evaluated ? (item.met / item.evaluated) * 100 : null })),
+    byModule: Array.from(byModule.values())
+      .filter(item => item.breached > 0)
+      .sort((a, b) => b.breached - a.breached),
+  };
+}
+
+/**
+ * 星期 × 小時的進件量輪廓，供人力估算使用。
+ * call_time 只有日期（或一律為 00:00）時無法拆分小時，只有依星期的件數。
+ */
+export type VolumeProfile = {
+  // [星期幾][小時] 件數，只計入有時間的列
+  byHour: number[][];
+  // 各星期幾的件數，含沒有時間的列
+  byWeekday: number[];
+  // 期間內各星期幾的天數（含沒有進件的日子），用來換算平均每日件數
+  days: number[];
+  hourly: boolean;
+  // 平均處理時間（分鐘），只計入有 resolve_minute 的列
+  aht: number | null;
+};
+
+// 日期之後的時間部分，例如 "2024-01-05 09:30"、"2024/1/5 9:30"、"2024-01-05T09:30"
+const TIME_RE = /[T\s](\d{1,2}):(\d{2})/;
+
+/** call_time 的小時；只有日期時回傳 null。 */
+export function hourOf(callTime: string): number | null {
+  const match = TIME_RE.exec(callTime);
+  const hour = match ? Number(match[1]) : NaN;
+  return hour >= 0 && hour < 24 ? hour : null;
+}
+
+function buildVolumeProfile(calls: CallFacts[], indices: number[], filter: CallFilter): VolumeProfile {
+  const byHour = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const byWeekday = new Array<number>(7).fill(0);
+  const hours = new Set<number>();
+  let minutes = 0;
+  let handled = 0;
+  let from: string | null = null;
+  let to: string | null = null;
+  for (const row of calls) {
+    if (!row.date) continue;
+    if (!from || row.date < from) from = row.date;
+    if (!to || row.date > to) to = row.date;
+  }
+  for (const index of indices) {
+    const row = calls[index];
+    if (row.resolveMinute != null) {
+      minutes += Math.max(0, row.resolveMinute);
+      handled += 1;
+    }
+    if (!row.date) continue;
+    const day = weekdayOf(row.date);
+    byWeekday[day] += 1;
+    const hour = hourOf(row.callTime);
+    if (hour != null) {
+      byHour[day][hour] += 1;
+      hours.add(hour);
+    }
+  }
+  // 期間以整份明細的起訖日為界，未開放的一端沿用明細的起訖日
+  const days = new Array<number>(7).fill(0);
+  const start = filter.start && from && filter.start > from ? filter.start : from;
+  const end = filter.end && to && filter.end < to ? filter.end : to;
+  if (start && end) {
+    const last = new Date(`${end}T00:00:00`);
+    for (const d = new Date(`${start}T00:00:00`); d <= last; d.setDate(d.getDate() + 1)) days[d.getDay()] += 1;
+  }
+  return { byHour, byWeekday, days, hourly: hours.size > 1, aht: handled ? minutes / handled : null };
+}
+
+export type DurationChart = ReturnType<typeof buildDurationChart>;
+export type CategoryStack = ReturnType<typeof buildCategoryStack>;
+
+/**
+ * 篩選選單的選項與件數：各維度不套用自己的篩選（選了 A 模組後仍列出其他模組可加選），
+ * 但套用期間與其他維度的篩選。
+ */
+function countOptions(calls: CallFacts[], filter: CallFilter, cross: CrossFilter) {
+  const modules = new Map<string, number>();
+  const categories = new Map<string, number>();
+  const withoutModules = { ...cross, modules: [] };
+  const withoutCategories = { ...cross, categories: [] };
+  for (const index of filterCalls(calls, filter)) {
+    const row = calls[index];
+    if (matchesCross(row, withoutModules)) modules.set(row.module, (modules.get(row.module) ?? 0) + 1);
+    if (matchesCross(row, withoutCategories)) categories.set(row.category, (categories.get(row.category) ?? 0) + 1);
+  }
+  return { modules, categories };
+}
+
+export type CallsView = {
+  // 篩選後的案件索引
+  indices: number[];
+  // 依件數排序的篩選選項
+  categoryOptions: string[];
+  moduleOptions: string[];
+  durationChart: DurationChart;
+  durationStats: DurationStats;
+  durationTrend: DurationTrend;
+  categoryStack: CategoryStack;
+  // 沒有交叉篩選時為 null，沿用原本的彙總資料集
+  subset: CallSubset | null;
+  // 尚未設定 SLA 規則時為 null
+  sla: SlaSummary | null;
+  profile: VolumeProfile;
+};
+
+export function computeCallsView(calls: CallFacts[], params: CallsViewParams): CallsView {
+  const indices = filterCalls(calls, params.filter, params.cross);
+  const base = buildDurationBase(calls, indices);
+  const options = countOptions(calls, params.filter, params.cross);
+  const baselineIndices = params.compare
+    ? filterCalls(calls, { ...params.compare, daily: params.filter.daily }, params.cross)
+    : null;
+  const baseline = baselineIndices ? buildDurationBase(calls, baselineIndices).rows : null;
+  return {
+    indices,
+    categoryOptions: sortedNames(options.categories),
+    moduleOptions: sortedNames(options.modules),
+    durationChart: buildDurationChart(base, params.duration, params.cross, params.sla, baseline),
+    durationStats: buildDurationStats(base, params.duration, params.cross, baseline),
+    durationTrend: buildDurationTrend(calls, base, params.filter.daily, params.trendGroupBy, params.cross),
+    categoryStack: buildCategoryStack(calls, indices, params.filter.daily),
+    subset: hasCrossFilter(params.cross) ? buildSubset(calls, params.cross) : null,
+    sla: params.sla.length
+      ? {
+          ...evaluateSla(calls, indices, params.sla),
+          baselineRate: baselineIndices ? evaluateSla(calls, baselineIndices, params.sla).rate : null,
+        }
+      : null,
+    profile: buildVolumeProfile(calls, indices, params.filter),
+  };
+}
@@ -0,0 +1,83 @@
+import { fetchCsv, readDataFile } from "./data"
+import { computeCallsView, type CallFacts } from "./aggregate"
+import { parseDataset, type LoadedDatasets } from "./datasets"
+import type { WorkerRequest, WorkerResponse } from "./workerProtocol"
+
+// tsconfig 只載入 DOM 型別，這裡只宣告用到的 worker 介面
+const ctx = self as unknown as {
+  postMessage: (message: WorkerResponse) => void
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null
+}
+
+type ViewRequest = Extract<WorkerRequest, { type: "callsView" }>
+
+let calls: CallFacts[] = []
+let callsVersion = -1
+// 最近一次在 worker 中解析的明細，主執行緒以其版本號請求時才改用
+let parsedCalls: { version: number; rows: CallFacts[] } | null = null
+// 尚未執行的最新一筆彙總請求
+let pending: ViewRequest | null = null
+let scheduled = false
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// 延到下一輪事件迴圈再計算，讓快速連續的篩選變更能先把舊請求取代掉
+function flush() {
+  scheduled = false
+  const request = pending
+  pending = null
+  if (!request) return
+  if (request.version !== callsVersion && request.version === parsedCalls?.version) {
+    calls = parsedCalls.rows
+    callsVersion = parsedCalls.version
+  }
+  if (request.version !== callsVersion) {
+    ctx.postMessage({ type: "cancelled", id: request.id })
+    return
+  }
+  try {
+    ctx.postMessage({ type: "callsView", id: request.id, view: computeCallsView(calls, request.params) })
+  } catch (error) {
+    ctx.postMessage({ type: "error", id: request.id, message: errorMessage(error) })
+  }
+}
+
+ctx.onmessage = (event) => {
+  const message = event.data
+  switch (message.type) {
+    case "load": {
+      const { id, dataset, source, version } = message
+      const task = source.kind === "url" ? fetchCsv(source.url) : readDataFile(source.file)
+      task
+        .then((rows) => {
+          const data = parseDataset(dataset, rows)
+          if (dataset === "calls" && version != null) {
+            // 解析好的明細留在 worker，主執行緒不必再傳回來
+            parsedCalls = { version, rows: (data as LoadedDatasets["calls"]).parsed.rows }
+          }
+          ctx.postMessage({ type: "loaded", id, data })
+        })
+        .catch((error) => ctx.postMessage({ type: "error", id, message: errorMessage(error) }))
+      break
+    }
+    case "setCalls":
+      calls = message.calls
+      callsVersion = message.version
+      break
+    case "callsView": {
+      if (pending) ctx.postMessage({ type: "cancelled", id: pending.id })
+      pending = message
+      if (!scheduled) {
+        scheduled = true
+        setTimeout(flush, 0)
+      }
+      break
+    }
+    case "cancel":
+      if (pending?.id === message.id) {
+        ctx.postMessage({ type: "cancelled", id: pending.id })
+        pending = null
+      }
+      break
+  }
+}
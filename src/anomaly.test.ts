@@ -0,0 +1,72 @@
+import dayjs from "dayjs"
+import { describe, expect, it } from "vitest"
+import { detectAnomalies, type AnomalySensitivity } from "./anomaly"
+import type { DayKind, WorkCalendar } from "./calendar"
+
+// 2025-01-06 為週一；第 57 天（2025-03-03，週一）之前正好有八週同星期幾的歷史
+const START = "2025-01-06"
+const TARGET = "2025-03-03"
+
+const dateAt = (index: number) => dayjs(START).add(index, "day").format("YYYY-MM-DD")
+
+const series = (days: number, count: (date: string) => number) =>
+  Array.from({ length: days }, (_, index) => ({ date: dateAt(index), count: count(dateAt(index)) }))
+
+// 只分平日、週末的日曆；kinds 指定個別日期的類型
+const calendarOf = (kinds: Record<string, DayKind> = {}): WorkCalendar => date => {
+  const kind = kinds[date] ?? ([0, 6].includes(dayjs(date).day()) ? "weekend" : "workday")
+  return { kind, name: null, working: kind === "workday" || kind === "makeup" }
+}
+
+describe("detectAnomalies", () => {
+  // 歷史件數固定時 MAD 為 0，尺度改為 sqrt(中位數)，至少為 1
+  it.each<[number, number, AnomalySensitivity, number | null]>([
+    [100, 100, "high", null],
+    [100, 120, "high", null],
+    [100, 130, "high", 3],
+    [100, 130, "medium", null],
+    [100, 60, "medium", -4],
+    [100, 140, "low", null],
+    [0, 3, "high", 3],
+  ])("歷史固定 %i 件、當天 %i 件、敏感度 %s 時分數為 %s", (history, count, sensitivity, score) => {
+    const rows = series(57, date => (date === TARGET ? count : history))
+    const anomalies = detectAnomalies(rows, sensitivity, calendarOf())
+    if (score == null) expect(anomalies).toEqual([])
+    else expect(anomalies).toEqual([{ date: TARGET, count, expected: history, score }])
+  })
+
+  it("敏感度關閉時不判斷", () => {
+    const rows = series(57, date => (date === TARGET ? 1000 : 100))
+    expect(detectAnomalies(rows, "off", calendarOf())).toEqual([])
+  })
+
+  it("歷史不足四週的日期不判斷", () => {
+    const rows = series(28, date => (date === dateAt(27) ? 1000 : 100))
+    expect(detectAnomalies(rows, "high", calendarOf())).toEqual([])
+  })
+
+  it("國定假日不判斷", () => {
+    const rows = series(57, date => (date === TARGET ? 5 : 100))
+    expect(detectAnomalies(rows, "high", calendarOf({ [TARGET]: "holiday" }))).toEqual([])
+  })
+
+  it("國定假日不列入同星期幾的基準", () => {
+    // 前四個週一放假且沒有案件，若列入基準，中位數會被拉低到 50
+    const holidays = [0, 7, 14, 21].map(dateAt)
+    const rows = series(57, date => (holidays.includes(date) ? 0 : 100))
+    const calendar = calendarOf(Object.fromEntries(holidays.map(date => [date, "holiday" as const])))
+    expect(detectAnomalies(rows, "high", calendar)).toEqual([])
+  })
+
+  it.each<[number, boolean]>([
+    [100, false],
+    [10, true],
+  ])("補班日以一般工作日為基準：當天 %i 件時標為異常 %s", (count, flagged) => {
+    // 平日 100 件、週末 10 件；2025-03-08（週六）補班
+    const makeup = dateAt(61)
+    const rows = series(62, date => (date === makeup ? count : [0, 6].includes(dayjs(date).day()) ? 10 : 100))
+    const anomalies = detectAnomalies(rows, "high", calendarOf({ [makeup]: "makeup" }))
+    expect(anomalies.map(item => item.date)).toEqual(flagged ? [makeup] : [])
+    if (flagged) expect(anomalies[0].expected).toBe(100)
+  })
+})
@@ -0,0 +1,73 @@
+import dayjs from "dayjs"
+import type { WorkCalendar } from "./calendar"
+import type { TrendRow } from "./schema"
+
+// 每日件數異常偵測：以過去數週「同一個星期幾」的件數為基準，計算穩健 z 分數（中位數與 MAD），
+// 週一通常較多、週末較少的節奏不會被誤判為異常。
+// 依工作日曆判斷：國定假日不判斷也不列入基準，補班日以近期一般工作日為基準
+
+export type AnomalySensitivity = "off" | "low" | "medium" | "high"
+
+export type Anomaly = {
+  date: string
+  count: number
+  // 同星期幾的歷史中位數
+  expected: number
+  // 穩健 z 分數，正值為偏高、負值為偏低
+  score: number
+}
+
+export const SENSITIVITY_LABELS: Record<AnomalySensitivity, string> = {
+  off: "關閉",
+  low: "低",
+  medium: "中",
+  high: "高",
+}
+
+// 敏感度越高門檻越低，標出的日期越多
+const THRESHOLDS: Record<Exclude<AnomalySensitivity, "off">, number> = {
+  low: 5,
+  medium: 3.5,
+  high: 2.5,
+}
+
+// 往回看的週數與至少需要的樣本數
+const WINDOW_WEEKS = 8
+const MIN_SAMPLES = 4
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** 依日期排序的每日件數中找出異常日；歷史樣本不足的日期不判斷。 */
+export function detectAnomalies(rows: TrendRow[], sensitivity: AnomalySensitivity, calendar: WorkCalendar): Anomaly[] {
+  if (sensitivity === "off") return []
+  const threshold = THRESHOLDS[sensitivity]
+  const byDate = new Map(rows.map(row => [row.date, row.count]))
+  const out: Anomaly[] = []
+  for (const row of rows) {
+    const { kind } = calendar(row.date)
+    if (kind === "holiday") continue
+    const base = dayjs(row.date)
+    // 補班日沒有同星期幾的上班紀錄，改取窗口內每一個一般工作日
+    const makeup = kind === "makeup"
+    const sampleKind = makeup ? "workday" : kind
+    const step = makeup ? 1 : 7
+    const samples: number[] = []
+    for (let offset = step; offset <= WINDOW_WEEKS * 7; offset += step) {
+      const date = base.subtract(offset, "day").format("YYYY-MM-DD")
+      const value = byDate.get(date)
+      if (value != null && calendar(date).kind === sampleKind) samples.push(value)
+    }
+    if (samples.length < MIN_SAMPLES) continue
+    const expected = median(samples)
+    const mad = median(samples.map(value => Math.abs(value - expected)))
+    // 歷史件數幾乎固定時 MAD 為 0，改以卜瓦松近似的標準差估計離散程度
+    const scale = mad > 0 ? mad / 0.6745 : Math.max(1, Math.sqrt(expected))
+    const score = (row.count - expected) / scale
+    if (Math.abs(score) >= threshold) out.push({ date: row.date, count: row.count, expected, score })
+  }
+  return out
+}
@@ -0,0 +1,62 @@
+import type { LoadedDataset } from "./datasets"
+
+// 以 IndexedDB 保存每個資料集最後一次成功載入的內容，離線或試算表回應慢時先顯示快取
+
+export type CachedDataset = {
+  key: string
+  // 資料來源簽章；來源改變後舊快取不再使用
+  source: string
+  // 解析後的結果，讀取快取時不必再解析一次
+  data: LoadedDataset
+  fetchedAt: number
+}
+
+const DB_NAME = "ivv-dashboard"
+const STORE = "sheets"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB 不可用"))
+        return
+      }
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "key" })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE))
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  }))
+}
+
+/** 讀取快取；來源簽章不符、舊版格式（只有原始列）或讀取失敗時回傳 null，不影響正常載入。 */
+export async function readCachedDataset(key: string, source: string): Promise<CachedDataset | null> {
+  try {
+    const entry = await run<CachedDataset | undefined>("readonly", (store) => store.get(key))
+    return entry && entry.source === source && entry.data ? entry : null
+  } catch {
+    return null
+  }
+}
+
+export async function writeCachedDataset(entry: CachedDataset) {
+  try {
+    await run("readwrite", (store) => store.put(entry))
+  } catch {
+    // 快取寫入失敗（例如無痕模式）不影響畫面
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { countWorkingDays, makeCalendar, type CalendarOverride } from "./calendar"
+
+describe("makeCalendar", () => {
+  const calendar = makeCalendar([])
+
+  it.each([
+    ["2025-01-01", "holiday", "開國紀念日", false],
+    ["2025-01-27", "holiday", "春節（調整放假）", false],
+    ["2025-02-08", "makeup", "補班", true],
+    ["2025-02-09", "weekend", null, false],
+    ["2025-02-10", "workday", null, true],
+  ])("%s 為 %s", (date, kind, name, working) => {
+    expect(calendar(date)).toEqual({ kind, name, working })
+  })
+
+  it.each<[CalendarOverride[], string, string, string, boolean]>([
+    [[{ date: "2025-02-10", kind: "holiday", name: "颱風假" }], "2025-02-10", "holiday", "颱風假", false],
+    [[{ date: "2025-02-15", kind: "workday", name: null }], "2025-02-15", "makeup", "上班", true],
+    [[{ date: "2025-01-01", kind: "workday", name: null }], "2025-01-01", "workday", "上班", true],
+    [[{ date: "2025-02-08", kind: "holiday", name: null }], "2025-02-08", "holiday", "放假", false],
+    [
+      [
+        { date: "2025-02-10", kind: "holiday", name: null },
+        { date: "2025-02-10", kind: "workday", name: "恢復上班" },
+      ],
+      "2025-02-10",
+      "workday",
+      "恢復上班",
+      true,
+    ],
+  ])("覆寫 %j 後 %s 為 %s", (overrides, date, kind, name, working) => {
+    expect(makeCalendar(overrides)(date)).toEqual({ kind, name, working })
+  })
+})
+
+describe("countWorkingDays", () => {
+  const calendar = makeCalendar([])
+
+  it.each<[string, string, number[], number]>([
+    // 春節連假，只有 1/24（週五）上班
+    ["2025-01-24", "2025-02-02", [], 1],
+    // 2/8 週六補班
+    ["2025-02-03", "2025-02-09", [], 6],
+    ["2025-02-03", "2025-02-09", [6], 1],
+    ["2025-02-24", "2025-03-02", [], 4],
+  ])("%s ~ %s（星期 %j）共 %i 個工作日", (start, end, weekdays, count) => {
+    expect(countWorkingDays(calendar, start, end, weekdays)).toBe(count)
+  })
+})
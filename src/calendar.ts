@@ -0,0 +1,176 @@
+import dayjs from "dayjs"
+
+// 工作日曆：內建臺灣國定假日與補班日（依行政院人事行政總處公告），可再以使用者設定覆寫。
+// 只含計算邏輯；覆寫的保存與訂閱見 useCalendar
+
+export type DayKind = "workday" | "weekend" | "holiday" | "makeup"
+
+export type CalendarDay = {
+  kind: DayKind
+  // 國定假日、補班或覆寫的名稱
+  name: string | null
+  working: boolean
+}
+
+export type CalendarOverride = {
+  date: string
+  // holiday：當天放假；workday：當天上班
+  kind: "holiday" | "workday"
+  name: string | null
+}
+
+export type WorkCalendar = (date: string) => CalendarDay
+
+// 放假日（含補假、調整放假），週末的節日不另列
+const TW_HOLIDAYS: Record<string, string> = {
+  "2023-01-02": "開國紀念日補假",
+  "2023-01-20": "春節（調整放假）",
+  "2023-01-21": "除夕",
+  "2023-01-22": "春節",
+  "2023-01-23": "春節",
+  "2023-01-24": "春節",
+  "2023-01-25": "春節補假",
+  "2023-01-26": "春節補假",
+  "2023-01-27": "春節（調整放假）",
+  "2023-02-27": "和平紀念日（調整放假）",
+  "2023-02-28": "和平紀念日",
+  "2023-04-03": "兒童節（調整放假）",
+  "2023-04-04": "兒童節",
+  "2023-04-05": "清明節",
+  "2023-06-22": "端午節",
+  "2023-06-23": "端午節（調整放假）",
+  "2023-09-29": "中秋節",
+  "2023-10-09": "國慶日（調整放假）",
+  "2023-10-10": "國慶日",
+  "2024-01-01": "開國紀念日",
+  "2024-02-08": "春節（調整放假）",
+  "2024-02-09": "除夕",
+  "2024-02-12": "春節",
+  "2024-02-13": "春節補假",
+  "2024-02-14": "春節補假",
+  "2024-02-28": "和平紀念日",
+  "2024-04-04": "兒童節、清明節",
+  "2024-04-05": "兒童節補假",
+  "2024-06-10": "端午節",
+  "2024-09-17": "中秋節",
+  "2024-10-10": "國慶日",
+  "2025-01-01": "開國紀念日",
+  "2025-01-27": "春節（調整放假）",
+  "2025-01-28": "除夕",
+  "2025-01-29": "春節",
+  "2025-01-30": "春節",
+  "2025-01-31": "春節",
+  "2025-02-28": "和平紀念日",
+  "2025-04-03": "兒童節補假",
+  "2025-04-04": "清明節",
+  "2025-05-30": "端午節補假",
+  "2025-09-29": "教師節補假",
+  "2025-10-06": "中秋節",
+  "2025-10-10": "國慶日",
+  "2025-10-24": "光復節補假",
+  "2025-12-25": "行憲紀念日",
+  "2026-01-01": "開國紀念日",
+  "2026-02-16": "除夕",
+  "2026-02-17": "春節",
+  "2026-02-18": "春節",
+  "2026-02-19": "春節",
+  "2026-02-20": "小年夜補假",
+  "2026-02-27": "和平紀念日補假",
+  "2026-04-03": "兒童節補假",
+  "2026-04-06": "清明節補假",
+  "2026-05-01": "勞動節",
+  "2026-06-19": "端午節",
+  "2026-09-25": "中秋節",
+  "2026-09-28": "教師節",
+  "2026-10-09": "國慶日補假",
+  "2026-10-26": "光復節補假",
+  "2026-12-25": "行憲紀念日",
+}
+
+// 補班的週六
+const TW_MAKEUP_WORKDAYS: Record<string, string> = {
+  "2023-01-07": "補班",
+  "2023-02-04": "補班",
+  "2023-02-18": "補班",
+  "2023-03-25": "補班",
+  "2023-06-17": "補班",
+  "2023-09-23": "補班",
+  "2024-02-17": "補班",
+  "2025-02-08": "補班",
+}
+
+export const BUNDLED_YEARS = [2023, 2024, 2025, 2026]
+
+export const DAY_KIND_LABELS: Record<DayKind, string> = {
+  workday: "工作日",
+  weekend: "週末",
+  holiday: "國定假日",
+  makeup: "補班日",
+}
+
+// 依 dayjs day() 排列：0 = 週日
+export const WEEKDAY_LABELS = ["週日", "週一", "週二", "週三", "週四", "週五", "週六"]
+// 表格、圖表列出星期時由週一排到週日
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+/** 建立工作日曆；覆寫優先於內建資料，同一天有多筆覆寫時取最後一筆。 */
+export function makeCalendar(overrides: CalendarOverride[]): WorkCalendar {
+  const byDate = new Map(overrides.map(item => [item.date, item]))
+  const cache = new Map<string, CalendarDay>()
+  return (date: string) => {
+    const hit = cache.get(date)
+    if (hit) return hit
+    const override = byDate.get(date)
+    const weekend = [0, 6].includes(dayjs(date).day())
+    let day: CalendarDay
+    if (override) {
+      const working = override.kind === "workday"
+      day = {
+        kind: working ? (weekend ? "makeup" : "workday") : "holiday",
+        name: override.name ?? (working ? "上班" : "放假"),
+        working,
+      }
+    } else if (TW_HOLIDAYS[date]) {
+      day = { kind: "holiday", name: TW_HOLIDAYS[date], working: false }
+    } else if (TW_MAKEUP_WORKDAYS[date]) {
+      day = { kind: "makeup", name: TW_MAKEUP_WORKDAYS[date], working: true }
+    } else {
+      day = { kind: weekend ? "weekend" : "workday", name: null, working: !weekend }
+    }
+    cache.set(date, day)
+    return day
+  }
+}
+
+/** start～end（含）之間的工作日數；weekdays 非空時只計入這些星期幾。 */
+export function countWorkingDays(calendar: WorkCalendar, start: string, end: string, weekdays: number[] = []) {
+  let count = 0
+  for (let d = dayjs(start); !d.isAfter(end, "day"); d = d.add(1, "day")) {
+    if (weekdays.length && !weekdays.includes(d.day())) continue
+    if (calendar(d.format("YYYY-MM-DD")).working) count += 1
+  }
+  return count
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 解析匯入的 JSON：可為覆寫陣列或 { "overrides": [...] }，每筆含 date、kind（holiday／workday）與 name（可省略）。
+ * 格式錯誤時拋出錯誤，訊息指出第幾筆。
+ */
+export function parseCalendarOverrides(json: unknown): CalendarOverride[] {
+  const list = Array.isArray(json) ? json : (json as { overrides?: unknown } | null)?.overrides
+  if (!Array.isArray(list)) throw new Error("日曆設定需為陣列，或含 overrides 陣列的物件")
+  return list.map((item, index) => {
+    if (!item || typeof item !== "object") throw new Error(`第 ${index + 1} 筆設定格式錯誤`)
+    const raw = item as Record<string, unknown>
+    if (typeof raw.date !== "string" || !DATE_RE.test(raw.date) || !dayjs(raw.date).isValid()) {
+      throw new Error(`第 ${index + 1} 筆設定的 date 需為 YYYY-MM-DD`)
+    }
+    if (raw.kind !== "holiday" && raw.kind !== "workday") {
+      throw new Error(`第 ${index + 1} 筆設定的 kind 需為 holiday 或 workday`)
+    }
+    const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : null
+    return { date: raw.date, kind: raw.kind, name }
+  })
+}
@@ -0,0 +1,55 @@
+import type { CallRow, TrendRow } from "./schema"
+
+// 自動更新前後的資料差異，用於「自 10:30 起新增 N 筆」提示
+
+export type DataChanges = {
+  newCalls: number
+  newDays: number
+  changedDays: number
+}
+
+export function hasChanges(changes: DataChanges) {
+  return changes.newCalls > 0 || changes.newDays > 0 || changes.changedDays > 0
+}
+
+export function diffTrend(prev: TrendRow[], next: TrendRow[]) {
+  const before = new Map(prev.map((row) => [row.date, row.count]))
+  let newDays = 0
+  let changedDays = 0
+  for (const row of next) {
+    const count = before.get(row.date)
+    if (count == null) newDays += 1
+    else if (count !== row.count) changedDays += 1
+  }
+  return { newDays, changedDays }
+}
+
+// 明細沒有唯一鍵，以欄位組合計數比對；同樣內容的列可能重複出現
+const callKey = (row: CallRow) => `${row.callTime}|${row.category}|${row.module}|${row.resolveMinute ?? ""}`
+
+/** 新版明細中多出來的列數（刪除或修改的列不計入）。 */
+export function countNewCalls(prev: CallRow[], next: CallRow[]) {
+  const before = new Map<string, number>()
+  for (const row of prev) {
+    const key = callKey(row)
+    before.set(key, (before.get(key) ?? 0) + 1)
+  }
+  let added = 0
+  for (const row of next) {
+    const key = callKey(row)
+    const left = before.get(key) ?? 0
+    if (left > 0) before.set(key, left - 1)
+    else added += 1
+  }
+  return added
+}
+
+/** 與基準資料相比的差異；「有更新的日期」以基準時的件數為準，不會重複累計。 */
+export function diffData(
+  baseline: { trend: TrendRow[]; calls: CallRow[] },
+  current: { trend: TrendRow[]; calls: CallRow[] },
+): DataChanges {
+  const trend = baseline.trend === current.trend ? { newDays: 0, changedDays: 0 } : diffTrend(baseline.trend, current.trend)
+  const newCalls = baseline.calls === current.calls ? 0 : countNewCalls(baseline.calls, current.calls)
+  return { newCalls, ...trend }
+}
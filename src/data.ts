@@ -1,30 +1,63 @@
 import Papa from "papaparse"
-import type { ParseResult } from "papaparse"
-
-interface CsvRow {
-  [key: string]: any;
-}
-
-export function fetchCsv(url: string): Promise<CsvRow[]> {
-  return new Promise((resolve, reject) => {
-    Papa.parse<CsvRow>(url, {
-      download: true,
-      header: true,
-      dynamicTyping: true,
-      complete: (res: ParseResult<CsvRow>) => {
-        // 正規化：去除欄位名稱與字串值的頭尾空白，避免因為表頭多空白而對不上 key
-        const normalized = (res.data || []).map((row) => {
-          const out: CsvRow = {}
-          Object.keys(row || {}).forEach((rawKey) => {
-            const k = typeof rawKey === 'string' ? rawKey.trim() : String(rawKey)
-            const v = (row as any)[rawKey]
-            out[k] = typeof v === 'string' ? v.trim() : v
-          })
-          return out
-        })
-        resolve(normalized)
-      },
-      error: (error: Error) => reject(error),
+import dayjs from "dayjs"
+
+export type CsvRow = Record<string, unknown>
+
+// 正規化：去除欄位名稱與字串值的頭尾空白，避免因為表頭多空白而對不上 key
+function normalizeRows(rows: CsvRow[]): CsvRow[] {
+  return (rows || []).map((row) => {
+    const out: CsvRow = {}
+    Object.keys(row || {}).forEach((rawKey) => {
+      const k = typeof rawKey === 'string' ? rawKey.trim() : String(rawKey)
+      const v = row[rawKey]
+      out[k] = typeof v === 'string' ? v.trim() : v
     })
+    return out
   })
 }
+
+function parseCsvText(text: string): CsvRow[] {
+  const res = Papa.parse<CsvRow>(text, { header: true, dynamicTyping: true })
+  return normalizeRows(res.data)
+}
+
+// Excel 日期儲存格轉成與 Google Sheets CSV 相同的字串格式
+function formatCellDate(value: Date) {
+  const d = dayjs(value)
+  const hasTime = d.hour() || d.minute() || d.second()
+  return d.format(hasTime ? "YYYY-MM-DD HH:mm:ss" : "YYYY-MM-DD")
+}
+
+async function readXlsx(file: File): Promise<CsvRow[]> {
+  // SheetJS 體積較大，只在匯入試算表時才載入
+  const XLSX = await import("xlsx")
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) return []
+  const rows = XLSX.utils.sheet_to_json<CsvRow>(sheet, { defval: null })
+  return normalizeRows(rows.map((row) => {
+    const out: CsvRow = {}
+    for (const [k, v] of Object.entries(row)) out[k] = v instanceof Date ? formatCellDate(v) : v
+    return out
+  }))
+}
+
+export function isSpreadsheetFile(file: File) {
+  return /\.(xlsx|xls)$/i.test(file.name)
+}
+
+export function isSupportedDataFile(file: File) {
+  return isSpreadsheetFile(file) || /\.(csv|txt)$/i.test(file.name) || file.type === "text/csv"
+}
+
+// 以 fetch 取得文字再解析，主執行緒與 Web Worker 皆可使用
+export async function fetchCsv(url: string): Promise<CsvRow[]> {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`下載失敗（HTTP ${res.status}）：${url}`)
+  return parseCsvText(await res.text())
+}
+
+/** 讀取使用者上傳的 CSV 或 XLSX（取第一個工作表），正規化方式與 fetchCsv 相同。 */
+export async function readDataFile(file: File): Promise<CsvRow[]> {
+  return isSpreadsheetFile(file) ? readXlsx(file) : parseCsvText(await file.text())
+}
@@ -0,0 +1,50 @@
+import type { CsvRow } from "./data"
+import {
+  parseAvgDuration, parseCalls, parseCategoryTrend, parseModuleByMonth, parseTrend,
+  type AvgDurationRow, type CallRow, type CategoryTrendRow, type ModuleMonthRow, type ParsedDataset, type TrendRow,
+} from "./schema"
+import { deriveAvgDuration, deriveModuleByMonth, deriveTrend } from "./derive"
+import type { DatasetKey } from "./sources"
+
+// 各資料集載入後的完整結果。schema 解析與由明細推算彙總表都在 worker 中完成，
+// 主執行緒只接收完成的列
+
+// 由案件明細推算的彙總表，供 calls-only 模式使用
+export type DerivedTables = {
+  trend: TrendRow[]
+  moduleByMonth: ModuleMonthRow[]
+  avgCallDuration: AvgDurationRow[]
+}
+
+export type LoadedDatasets = {
+  trend: { parsed: ParsedDataset<TrendRow> }
+  moduleByMonth: { parsed: ParsedDataset<ModuleMonthRow> }
+  avgCallDuration: { parsed: ParsedDataset<AvgDurationRow> }
+  calls: { parsed: ParsedDataset<CallRow>; derived: DerivedTables }
+  categoryTrend: { parsed: ParsedDataset<CategoryTrendRow> }
+}
+
+export type LoadedDataset = LoadedDatasets[DatasetKey]
+
+const PARSERS: { [K in DatasetKey]: (rows: CsvRow[]) => LoadedDatasets[K] } = {
+  trend: (rows) => ({ parsed: parseTrend(rows) }),
+  moduleByMonth: (rows) => ({ parsed: parseModuleByMonth(rows) }),
+  avgCallDuration: (rows) => ({ parsed: parseAvgDuration(rows) }),
+  calls: (rows) => {
+    const parsed = parseCalls(rows)
+    return {
+      parsed,
+      derived: {
+        trend: deriveTrend(parsed.rows),
+        moduleByMonth: deriveModuleByMonth(parsed.rows),
+        avgCallDuration: deriveAvgDuration(parsed.rows),
+      },
+    }
+  },
+  categoryTrend: (rows) => ({ parsed: parseCategoryTrend(rows) }),
+}
+
+/** 依資料集的 schema 解析原始列；案件明細另外推算彙總表。 */
+export function parseDataset<K extends DatasetKey>(key: K, rows: CsvRow[]): LoadedDatasets[K] {
+  return PARSERS[key](rows)
+}
@@ -0,0 +1,290 @@
+import dayjs from "dayjs"
+
+// 期間篩選：工具列的選擇（年、季、月、週、預設區間、自訂）統一換算成含首尾的日期區間
+
+export type RangePreset = "last7" | "last30" | "last90" | "thisQuarter" | "fiscalYear" | "rolling12"
+
+export type RangeSelection =
+  | { kind: "all" }
+  | { kind: "year"; year: string }
+  | { kind: "quarter"; year: string; quarter: number }
+  | { kind: "month"; month: string }
+  // 週一開始的一週
+  | { kind: "week"; start: string }
+  | { kind: "preset"; preset: RangePreset }
+  | { kind: "custom"; start: string; end: string }
+
+export type DateRange = {
+  // YYYY-MM-DD，含首尾；null 表示不限
+  start: string | null
+  end: string | null
+}
+
+export type ResolvedRange = DateRange & {
+  selection: RangeSelection
+  // 圖表標題用；全部期間為空字串
+  label: string
+  // 匯出檔名用
+  exportKey: string
+  // 總件數 KPI 標題
+  totalLabel: string
+  // 期間不超過一季時圖表逐日呈現，否則逐月
+  daily: boolean
+  // 起訖都落在月初、月底；月彙總資料（模組月統計、平均處理時長）可完整對應
+  monthAligned: boolean
+}
+
+export const PRESET_LABELS: Record<RangePreset, string> = {
+  last7: "最近 7 天",
+  last30: "最近 30 天",
+  last90: "最近 90 天",
+  thisQuarter: "本季",
+  fiscalYear: "本會計年度",
+  rolling12: "近 12 個月",
+}
+
+// 會計年度起始月份；政府會計年度與曆年相同
+export const FISCAL_YEAR_START_MONTH = 1
+
+const DAILY_MAX_DAYS = 92
+const FORMAT = "YYYY-MM-DD"
+
+export const ALL_RANGE: RangeSelection = { kind: "all" }
+
+export function weekStart(date: string) {
+  const d = dayjs(date)
+  return d.subtract((d.day() + 6) % 7, "day").format(FORMAT)
+}
+
+export function quarterOf(date: string) {
+  return Math.floor(dayjs(date).month() / 3) + 1
+}
+
+const quarterStart = (year: string | number, quarter: number) =>
+  dayjs(`${year}-${String(quarter * 3 - 2).padStart(2, "0")}-01`)
+
+function presetRange(preset: RangePreset, anchor: string): DateRange {
+  const end = dayjs(anchor)
+  switch (preset) {
+    case "last7":
+      return { start: end.subtract(6, "day").format(FORMAT), end: anchor }
+    case "last30":
+      return { start: end.subtract(29, "day").format(FORMAT), end: anchor }
+    case "last90":
+      return { start: end.subtract(89, "day").format(FORMAT), end: anchor }
+    case "thisQuarter":
+      return { start: quarterStart(end.year(), quarterOf(anchor)).format(FORMAT), end: anchor }
+    case "fiscalYear": {
+      const startMonth = FISCAL_YEAR_START_MONTH - 1
+      const year = end.month() >= startMonth ? end.year() : end.year() - 1
+      return { start: dayjs(new Date(year, startMonth, 1)).format(FORMAT), end: anchor }
+    }
+    case "rolling12":
+      return { start: end.subtract(12, "month").add(1, "day").format(FORMAT), end: anchor }
+  }
+}
+
+function rangeOf(selection: RangeSelection, anchor: string): DateRange {
+  switch (selection.kind) {
+    case "all":
+      return { start: null, end: null }
+    case "year":
+      return { start: `${selection.year}-01-01`, end: `${selection.year}-12-31` }
+    case "quarter": {
+      const start = quarterStart(selection.year, selection.quarter)
+      return { start: start.format(FORMAT), end: start.add(2, "month").endOf("month").format(FORMAT) }
+    }
+    case "month": {
+      const start = dayjs(`${selection.month}-01`)
+      return { start: start.format(FORMAT), end: start.endOf("month").format(FORMAT) }
+    }
+    case "week":
+      return { start: selection.start, end: dayjs(selection.start).add(6, "day").format(FORMAT) }
+    case "preset":
+      return presetRange(selection.preset, anchor)
+    case "custom": {
+      const start = selection.start || null
+      const end = selection.end || null
+      // 起訖顛倒時自動對調
+      return start && end && start > end ? { start: end, end: start } : { start, end }
+    }
+  }
+}
+
+const spanLabel = ({ start, end }: DateRange) => {
+  if (start && end) return `${start} ~ ${end}`
+  if (start) return `${start} 起`
+  if (end) return `至 ${end}`
+  return ""
+}
+
+/** 將工具列的選擇換算成日期區間；相對區間（最近 N 天等）以資料最新日期為基準。 */
+export function resolveRange(selection: RangeSelection, anchor: string): ResolvedRange {
+  const range = rangeOf(selection, anchor)
+  const days = range.start && range.end ? dayjs(range.end).diff(range.start, "day") + 1 : Infinity
+  const monthAligned =
+    (!range.start || dayjs(range.start).date() === 1) &&
+    (!range.end || dayjs(range.end).isSame(dayjs(range.end).endOf("month"), "day"))
+  const base = { ...range, selection, daily: days <= DAILY_MAX_DAYS, monthAligned }
+  const span = spanLabel(range)
+
+  switch (selection.kind) {
+    case "all":
+      return { ...base, label: "", exportKey: "all", totalLabel: "全部總件數" }
+    case "year":
+      return { ...base, label: `${selection.year} 年`, exportKey: selection.year, totalLabel: `${selection.year} 年總件數` }
+    case "quarter":
+      return {
+        ...base,
+        label: `${selection.year} 年第 ${selection.quarter} 季`,
+        exportKey: `${selection.year}-Q${selection.quarter}`,
+        totalLabel: "本季總件數",
+      }
+    case "month": {
+      const d = dayjs(`${selection.month}-01`)
+      return {
+        ...base,
+        label: d.isValid() ? d.format("YYYY 年 MM 月") : selection.month,
+        exportKey: selection.month,
+        totalLabel: "本月總件數",
+      }
+    }
+    case "week":
+      return { ...base, label: `${span} 當週`, exportKey: `week-${selection.start}`, totalLabel: "本週總件數" }
+    case "preset":
+      return {
+        ...base,
+        label: `${PRESET_LABELS[selection.preset]}（${span}）`,
+        exportKey: `${range.start}_${range.end}`,
+        totalLabel: `${PRESET_LABELS[selection.preset]}總件數`,
+      }
+    case "custom":
+      return {
+        ...base,
+        label: span,
+        exportKey: `${range.start ?? "start"}_${range.end ?? "end"}`,
+        totalLabel: "期間總件數",
+      }
+  }
+}
+
+export function inRange(date: string, range: DateRange) {
+  if (range.start && date < range.start) return false
+  if (range.end && date > range.end) return false
+  return true
+}
+
+/** 月份（YYYY-MM）與區間是否有交集；月彙總資料以此判斷是否納入。 */
+export function monthOverlaps(month: string, range: DateRange) {
+  if (range.start && month < range.start.slice(0, 7)) return false
+  if (range.end && month > range.end.slice(0, 7)) return false
+  return true
+}
+
+/** 緊接在前、長度相同的區間；不限起訖的區間沒有前一期。 */
+export function previousRange(range: DateRange): DateRange | null {
+  if (!range.start || !range.end) return null
+  const start = dayjs(range.start)
+  const end = dayjs(range.end)
+  // 整月的區間（月、季、年）以月份數往前推，上一期才會是完整的月份
+  if (start.date() === 1 && end.isSame(end.endOf("month"), "day")) {
+    const months = end.diff(start, "month") + 1
+    return {
+      start: start.subtract(months, "month").format(FORMAT),
+      end: start.subtract(1, "day").format(FORMAT),
+    }
+  }
+  const days = end.diff(start, "day") + 1
+  const previousEnd = start.subtract(1, "day")
+  return { start: previousEnd.subtract(days - 1, "day").format(FORMAT), end: previousEnd.format(FORMAT) }
+}
+
+/** 去年同期。 */
+export function lastYearRange(range: DateRange): DateRange | null {
+  if (!range.start || !range.end) return null
+  return {
+    start: dayjs(range.start).subtract(1, "year").format(FORMAT),
+    end: dayjs(range.end).subtract(1, "year").format(FORMAT),
+  }
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+// 比較模式的基準期間
+export type CompareSelection =
+  | { kind: "previous" }
+  | { kind: "lastYear" }
+  | { kind: "custom"; start: string; end: string }
+
+export const COMPARE_LABELS: Record<CompareSelection["kind"], string> = {
+  previous: "前一期間",
+  lastYear: "去年同期",
+  custom: "自訂期間",
+}
+
+/**
+ * 基準期間的日期區間。前一期間、去年同期只比到資料最新日期，
+ * 避免拿進行中、不完整的本期和完整的前期比；不限起訖的本期只能自訂基準。
+ */
+export function compareRange(compare: CompareSelection, range: DateRange, anchor: string): DateRange | null {
+  if (compare.kind === "custom") {
+    const { start, end } = compare
+    if (!start || !end) return null
+    return start > end ? { start: end, end: start } : { start, end }
+  }
+  const compared = { start: range.start, end: range.end && range.end > anchor ? anchor : range.end }
+  return compare.kind === "previous" ? previousRange(compared) : lastYearRange(compared)
+}
+
+export function encodeCompare(compare: CompareSelection | null): string {
+  if (!compare) return ""
+  if (compare.kind === "previous") return "prev"
+  if (compare.kind === "lastYear") return "yoy"
+  return `${compare.start}_${compare.end}`
+}
+
+export function decodeCompare(value: string | null): CompareSelection | null {
+  if (value === "prev") return { kind: "previous" }
+  if (value === "yoy") return { kind: "lastYear" }
+  const [start = "", end = "", ...rest] = (value ?? "").split("_")
+  if (!rest.length && DATE_RE.test(start) && DATE_RE.test(end)) return { kind: "custom", start, end }
+  return null
+}
+
+const PRESET_KEYS = Object.keys(PRESET_LABELS) as RangePreset[]
+
+/** 網址參數用的簡短表示：2024、2024-Q2、2024-05、w2024-05-13、last30、2024-05-01_2024-05-10。 */
+export function encodeRange(selection: RangeSelection): string {
+  switch (selection.kind) {
+    case "all":
+      return ""
+    case "year":
+      return selection.year
+    case "quarter":
+      return `${selection.year}-Q${selection.quarter}`
+    case "month":
+      return selection.month
+    case "week":
+      return `w${selection.start}`
+    case "preset":
+      return selection.preset
+    case "custom":
+      return `${selection.start}_${selection.end}`
+  }
+}
+
+/** encodeRange 的反向；無法辨識時回傳全部期間。 */
+export function decodeRange(value: string | null): RangeSelection {
+  if (!value) return ALL_RANGE
+  if (/^\d{4}$/.test(value)) return { kind: "year", year: value }
+  const quarter = /^(\d{4})-Q([1-4])$/.exec(value)
+  if (quarter) return { kind: "quarter", year: quarter[1], quarter: Number(quarter[2]) }
+  if (/^\d{4}-\d{2}$/.test(value)) return { kind: "month", month: value }
+  if (value.startsWith("w") && DATE_RE.test(value.slice(1))) return { kind: "week", start: weekStart(value.slice(1)) }
+  if ((PRESET_KEYS as string[]).includes(value)) return { kind: "preset", preset: value as RangePreset }
+  const [start = "", end = "", ...rest] = value.split("_")
+  if (!rest.length && (DATE_RE.test(start) || !start) && (DATE_RE.test(end) || !end) && (start || end)) {
+    return { kind: "custom", start, end }
+  }
+  return ALL_RANGE
+}
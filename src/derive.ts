@@ -0,0 +1,50 @@
+import dayjs from "dayjs"
+import type { AvgDurationRow, CallRow, ModuleMonthRow, TrendRow } from "./schema"
+
+// 由案件明細推算彙總資料：未設定彙總表來源時使用（calls-only 模式），
+// 交叉篩選的子集合也在 worker 中以此計算，因此不需要原始列
+type CallFacts = Omit<CallRow, "source">
+
+/** 每日件數；明細涵蓋期間內沒有案件的日期補 0，與趨勢表一致。 */
+export function deriveTrend(calls: CallFacts[]): TrendRow[] {
+  const counts = new Map<string, number>()
+  for (const call of calls) {
+    if (!call.date) continue
+    counts.set(call.date, (counts.get(call.date) ?? 0) + 1)
+  }
+  const dates = Array.from(counts.keys()).sort()
+  if (!dates.length) return []
+  const out: TrendRow[] = []
+  const end = dayjs(dates[dates.length - 1])
+  for (let d = dayjs(dates[0]); !d.isAfter(end, "day"); d = d.add(1, "day")) {
+    const date = d.format("YYYY-MM-DD")
+    out.push({ date, count: counts.get(date) ?? 0 })
+  }
+  return out
+}
+
+export function deriveModuleByMonth(calls: CallFacts[]): ModuleMonthRow[] {
+  const totals = new Map<string, ModuleMonthRow>()
+  for (const call of calls) {
+    const key = `${call.month}|${call.module}`
+    const row = totals.get(key)
+    if (row) row.count += 1
+    else totals.set(key, { month: call.month, year: call.year, module: call.module, count: 1 })
+  }
+  return Array.from(totals.values()).sort((a, b) => a.month.localeCompare(b.month) || b.count - a.count)
+}
+
+/** 每月平均處理時間；負值比照分佈圖以 0 計，未填者不列入。 */
+export function deriveAvgDuration(calls: CallFacts[]): AvgDurationRow[] {
+  const stats = new Map<string, { sum: number; count: number }>()
+  for (const call of calls) {
+    if (call.resolveMinute == null) continue
+    const stat = stats.get(call.month) ?? { sum: 0, count: 0 }
+    stat.sum += Math.max(0, call.resolveMinute)
+    stat.count += 1
+    stats.set(call.month, stat)
+  }
+  return Array.from(stats.entries())
+    .map(([month, stat]) => ({ month, year: month.slice(0, 4), value: +(stat.sum / stat.count).toFixed(2) }))
+    .sort((a, b) => a.month.localeCompare(b.month))
+}
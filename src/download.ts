@@ -0,0 +1,28 @@
+import html2canvas from "html2canvas";
+
+// 匯出工具：CSV 加上 BOM，讓 Excel 正確辨識 UTF-8 中文；PNG 以 html2canvas 擷取卡片
+
+export const toCsv = (rows: object[]) => {
+  if (!rows?.length) return "";
+  // 欄位取所有列的聯集，避免不同列欄位不一致時漏欄
+  const headers = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  const lines = [headers.join(","), ...rows.map(r => headers.map(h => JSON.stringify((r as Record<string, unknown>)[h] ?? "")).join(","))];
+  return "\uFEFF" + lines.join("\n");
+};
+
+export const download = (name: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a"); a.href = url; a.download = name; a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (name: string, rows: object[]) => {
+  download(name, new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" }));
+};
+
+/** 將卡片擷取成兩倍解析度的 PNG；element 尚未掛載時不動作。 */
+export const downloadPng = async (name: string, element: HTMLElement | null) => {
+  if (!element) return;
+  const canvas = await html2canvas(element, { backgroundColor: "#fff", scale: 2 });
+  canvas.toBlob(b => b && download(name, b));
+};
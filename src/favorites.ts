@@ -0,0 +1,25 @@
+import { useSyncExternalStore } from "react"
+import { createLocalStore } from "./localStore"
+
+// 篩選選單中釘選的常用模組、分類，保存在 localStorage，所有選單共用
+
+export type FavoriteKind = "modules" | "categories"
+export type Favorites = Record<FavoriteKind, string[]>
+
+const store = createLocalStore("ivv-dashboard:favorites", (json): Favorites => {
+  const raw = json as Partial<Record<FavoriteKind, unknown>> | null
+  const list = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [])
+  return { modules: list(raw?.modules), categories: list(raw?.categories) }
+})
+
+/** 切換釘選；新釘選的項目排在最後。 */
+export function toggleFavorite(kind: FavoriteKind, name: string) {
+  const favorites = store.get()
+  const current = favorites[kind]
+  const next = current.includes(name) ? current.filter(item => item !== name) : [...current, name]
+  store.set({ ...favorites, [kind]: next })
+}
+
+export function useFavorites() {
+  return useSyncExternalStore(store.subscribe, store.get)
+}
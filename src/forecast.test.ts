@@ -0,0 +1,59 @@
+import dayjs from "dayjs"
+import { describe, expect, it } from "vitest"
+import { backtest, forecastDaily } from "./forecast"
+
+// 週一到週日的固定件數；2025-01-06 為週一
+const PATTERN = [100, 120, 110, 105, 90, 20, 10]
+const START = "2025-01-06"
+
+const weekly = (days: number) =>
+  Array.from({ length: days }, (_, index) => ({
+    date: dayjs(START).add(index, "day").format("YYYY-MM-DD"),
+    count: PATTERN[index % 7],
+  }))
+
+const expectedOn = (date: string) => PATTERN[(dayjs(date).day() + 6) % 7]
+
+describe("forecastDaily", () => {
+  // 序列結束在不同星期幾時，季節項仍要對回預測日的星期幾
+  it.each([
+    [56, 14, "2025-03-03"],
+    [53, 7, "2025-02-28"],
+    [30, 30, "2025-02-05"],
+  ])("%i 天的週期序列往後預測 %i 天，自 %s 起", (days, horizon, first) => {
+    const points = forecastDaily(weekly(days), horizon)
+    expect(points).toHaveLength(horizon)
+    points.forEach((point, index) => {
+      expect(point.date).toBe(dayjs(first).add(index, "day").format("YYYY-MM-DD"))
+      expect(point.value).toBeCloseTo(expectedOn(point.date), 6)
+      // 完全符合週期時沒有誤差，預測區間收斂成單點
+      expect(point.upper - point.lower).toBeCloseTo(0, 6)
+    })
+  })
+
+  it.each([
+    [27, 14],
+    [56, 0],
+  ])("%i 天的歷史、預測 %i 天時不預測", (days, horizon) => {
+    expect(forecastDaily(weekly(days), horizon)).toEqual([])
+  })
+
+  it("缺漏的日期補 0 後仍連續預測", () => {
+    const rows = weekly(56).filter(row => row.date !== "2025-02-12")
+    const points = forecastDaily(rows, 7)
+    expect(points.map(point => point.date)).toEqual(
+      Array.from({ length: 7 }, (_, index) => dayjs("2025-03-03").add(index, "day").format("YYYY-MM-DD")),
+    )
+  })
+})
+
+describe("backtest", () => {
+  it("只回測前面至少有四週歷史的完整月份", () => {
+    // 2025-01-06 ~ 2025-04-30；二月之前不足四週
+    const rows = weekly(dayjs("2025-04-30").diff(START, "day") + 1)
+    const result = backtest(rows)
+    expect(result.months.map(item => item.month)).toEqual(["2025-03", "2025-04"])
+    result.months.forEach(item => expect(item.forecast).toBeCloseTo(item.actual, 6))
+    expect(result.wape).toBeCloseTo(0, 6)
+  })
+})
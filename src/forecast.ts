@@ -0,0 +1,157 @@
+import dayjs from "dayjs"
+import type { TrendRow } from "./schema"
+
+// 每日件數預測：加法 Holt-Winters（水準、趨勢、週季節），平滑參數以格點搜尋一步預測誤差最小者
+
+export type ForecastPoint = {
+  date: string
+  value: number
+  // 95% 預測區間
+  lower: number
+  upper: number
+  // 該步預測的標準差，月合計區間用
+  sd: number
+}
+
+export type BacktestMonth = {
+  month: string
+  actual: number
+  forecast: number
+}
+
+export type Backtest = {
+  months: BacktestMonth[]
+  // 每日加權絕對百分比誤差（總誤差 / 總件數），週末 0 件也不會讓誤差發散
+  wape: number | null
+}
+
+export const FORECAST_OPTIONS = [0, 14, 30, 60, 90]
+
+const SEASON = 7
+// 至少需要的天數與用於擬合的最長歷史
+const MIN_DAYS = SEASON * 4
+const MAX_DAYS = 365
+const Z95 = 1.96
+const FORMAT = "YYYY-MM-DD"
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9]
+const BETAS = [0.01, 0.05, 0.1, 0.2]
+const GAMMAS = [0.05, 0.1, 0.3, 0.5]
+
+type Params = { alpha: number; beta: number; gamma: number }
+
+type Fit = Params & {
+  level: number
+  trend: number
+  season: number[]
+  sse: number
+  count: number
+}
+
+function fit(values: number[], { alpha, beta, gamma }: Params): Fit {
+  // 以前兩週初始化：水準為第一週平均、趨勢為兩週平均差 / 7、季節為第一週各天與平均的差
+  const first = values.slice(0, SEASON)
+  const second = values.slice(SEASON, SEASON * 2)
+  const mean = (list: number[]) => list.reduce((sum, value) => sum + value, 0) / list.length
+  let level = mean(first)
+  let trend = (mean(second) - mean(first)) / SEASON
+  const season = first.map(value => value - level)
+  let sse = 0
+  let count = 0
+  for (let t = SEASON; t < values.length; t += 1) {
+    const s = season[t % SEASON]
+    const predicted = level + trend + s
+    const error = values[t] - predicted
+    sse += error * error
+    count += 1
+    const previousLevel = level
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend)
+    trend = beta * (level - previousLevel) + (1 - beta) * trend
+    season[t % SEASON] = gamma * (values[t] - level) + (1 - gamma) * s
+  }
+  return { alpha, beta, gamma, level, trend, season, sse, count }
+}
+
+function bestFit(values: number[]): Fit {
+  let best: Fit | null = null
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const result = fit(values, { alpha, beta, gamma })
+        if (!best || result.sse < best.sse) best = result
+      }
+    }
+  }
+  return best!
+}
+
+/** 補齊缺漏日期（0 件）成連續的每日序列，只取最近 MAX_DAYS 天。 */
+function dailySeries(rows: TrendRow[]) {
+  if (!rows.length) return { start: null as string | null, values: [] as number[] }
+  const counts = new Map(rows.map(row => [row.date, row.count]))
+  const last = dayjs(rows[rows.length - 1].date)
+  const first = dayjs(rows[0].date)
+  const start = last.diff(first, "day") + 1 > MAX_DAYS ? last.subtract(MAX_DAYS - 1, "day") : first
+  const values: number[] = []
+  for (let d = start; !d.isAfter(last, "day"); d = d.add(1, "day")) values.push(counts.get(d.format(FORMAT)) ?? 0)
+  return { start: start.format(FORMAT), values }
+}
+
+function project(values: number[], start: string, horizon: number): ForecastPoint[] {
+  const model = bestFit(values)
+  const sigma = model.count ? Math.sqrt(model.sse / model.count) : 0
+  const points: ForecastPoint[] = []
+  const origin = dayjs(start).add(values.length - 1, "day")
+  for (let h = 1; h <= horizon; h += 1) {
+    const value = Math.max(0, model.level + h * model.trend + model.season[(values.length + h - 1) % SEASON])
+    // h 步預測的標準差（忽略趨勢與季節項的不確定性）
+    const sd = sigma * Math.sqrt(1 + (h - 1) * model.alpha * model.alpha)
+    points.push({
+      date: origin.add(h, "day").format(FORMAT),
+      value,
+      lower: Math.max(0, value - Z95 * sd),
+      upper: value + Z95 * sd,
+      sd,
+    })
+  }
+  return points
+}
+
+/** 預測最後一筆資料之後的 horizon 天；歷史不足四週時回傳空陣列。 */
+export function forecastDaily(rows: TrendRow[], horizon: number): ForecastPoint[] {
+  const { start, values } = dailySeries(rows)
+  if (!start || values.length < MIN_DAYS || horizon <= 0) return []
+  return project(values, start, horizon)
+}
+
+/**
+ * 回測：對最近 months 個完整月份，各以該月之前的資料擬合並預測整個月，
+ * 比較月合計與每日誤差。資料最後一個月若不完整則不列入。
+ */
+export function backtest(rows: TrendRow[], months = 3): Backtest {
+  const { start, values } = dailySeries(rows)
+  if (!start) return { months: [], wape: null }
+  const end = dayjs(start).add(values.length - 1, "day")
+  // 最後一個完整月份
+  let month = end.isSame(end.endOf("month"), "day") ? end.startOf("month") : end.startOf("month").subtract(1, "month")
+  const result: BacktestMonth[] = []
+  let absError = 0
+  let actualTotal = 0
+  for (let i = 0; i < months; i += 1, month = month.subtract(1, "month")) {
+    const offset = month.diff(dayjs(start), "day")
+    if (offset < MIN_DAYS) break
+    const days = month.daysInMonth()
+    const points = project(values.slice(0, offset), start, days)
+    const actual = values.slice(offset, offset + days)
+    actual.forEach((value, index) => {
+      absError += Math.abs(value - points[index].value)
+      actualTotal += value
+    })
+    result.push({
+      month: month.format("YYYY-MM"),
+      actual: actual.reduce((sum, value) => sum + value, 0),
+      forecast: points.reduce((sum, point) => sum + point.value, 0),
+    })
+  }
+  return { months: result.reverse(), wape: actualTotal ? (absError / actualTotal) * 100 : null }
+}
@@ -0,0 +1,9 @@
+// 數字顯示格式，儀表板與各卡片共用
+
+const numberFormatter = new Intl.NumberFormat("zh-Hant")
+
+/** 千分位格式；沒有值時顯示 -。 */
+export const formatNumber = (value: number | null | undefined) => {
+  if (value == null || Number.isNaN(value)) return "-"
+  return numberFormatter.format(value)
+}
@@ -0,0 +1,38 @@
+// 保存在 localStorage 的外部狀態，各設定面板與儀表板透過 useSyncExternalStore 共用
+
+export type LocalStore<T> = {
+  get: () => T
+  set: (next: T) => void
+  subscribe: (fn: () => void) => () => void
+}
+
+const isEmpty = (value: unknown) =>
+  Array.isArray(value) ? !value.length : Boolean(value) && typeof value === "object" && !Object.keys(value as object).length
+
+/** 建立 localStorage 狀態；parse 收到 null（尚未保存或格式錯誤）時需回傳預設值。空陣列、空物件不保存。 */
+export function createLocalStore<T>(key: string, parse: (raw: unknown) => T): LocalStore<T> {
+  let value: T
+  try {
+    value = parse(JSON.parse(localStorage.getItem(key) ?? "null"))
+  } catch {
+    value = parse(null)
+  }
+  const listeners = new Set<() => void>()
+  return {
+    get: () => value,
+    set(next) {
+      value = next
+      try {
+        if (isEmpty(next)) localStorage.removeItem(key)
+        else localStorage.setItem(key, JSON.stringify(next))
+      } catch {
+        // localStorage 不可用時只在本次工作階段生效
+      }
+      listeners.forEach((fn) => fn())
+    },
+    subscribe(fn) {
+      listeners.add(fn)
+      return () => { listeners.delete(fn) }
+    },
+  }
+}
@@ -2,10 +2,13 @@ import React from "react"
 import ReactDOM from "react-dom/client"
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 import Dashboard from "./Dashboard"
+import { loadSourceConfig } from "./sources"
 import "./index.css"
 
 const qc = new QueryClient()
 
+loadSourceConfig()
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <QueryClientProvider client={qc}>
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { rankModules } from "./moduleRanking"
+
+const row = (month: string, module: string, count: number) => ({ month, year: month.slice(0, 4), module, count })
+
+// 一月 A > B > C，二月 B > A > D
+const ROWS = [
+  row("2025-01", "A", 10),
+  row("2025-01", "B", 5),
+  row("2025-01", "C", 1),
+  row("2025-02", "B", 8),
+  row("2025-02", "A", 3),
+  row("2025-02", "D", 2),
+]
+const JANUARY = { start: "2025-01-01", end: "2025-01-31" }
+const FEBRUARY = { start: "2025-02-01", end: "2025-02-28" }
+
+describe("rankModules", () => {
+  it("依件數排名並計算佔比與累積佔比", () => {
+    const { rows } = rankModules(ROWS, FEBRUARY, null, 5)
+    expect(rows.map(item => [item.rank, item.name, item.value])).toEqual([
+      [1, "B", 8],
+      [2, "A", 3],
+      [3, "D", 2],
+    ])
+    expect(rows.map(item => Math.round(item.cumulative))).toEqual([62, 85, 100])
+  })
+
+  it.each([
+    [1, ["B"], [{ name: "A", previousRank: 1, rank: 2 }]],
+    [2, [], []],
+    // D 在一月沒有案件，視為新進；C 在二月沒有案件
+    [3, ["D"], [{ name: "C", previousRank: 3, rank: null }]],
+  ])("前 %i 名：進入 %j、跌出 %j", (topN, entered, left) => {
+    const ranking = rankModules(ROWS, FEBRUARY, JANUARY, topN)
+    expect(ranking.movement).toBe("ok")
+    expect(ranking.entered).toEqual(entered)
+    expect(ranking.left).toEqual(left)
+  })
+
+  it("名次變化與件數增減", () => {
+    const { rows } = rankModules(ROWS, FEBRUARY, JANUARY, 3)
+    expect(rows.map(item => [item.name, item.previousRank, item.delta])).toEqual([
+      ["B", 2, 3],
+      ["A", 1, -7],
+      ["D", null, 2],
+    ])
+  })
+
+  it.each([
+    ["沒有基準期間", null, "none"],
+    ["基準期間沒有資料", { start: "2024-02-01", end: "2024-02-29" }, "empty"],
+    ["兩期涵蓋相同月份", { start: "2025-02-01", end: "2025-02-07" }, "sameMonths"],
+  ] as const)("%s時不比較名次", (_, baseline, movement) => {
+    const ranking = rankModules(ROWS, { start: "2025-02-08", end: "2025-02-14" }, baseline, 1)
+    expect(ranking.movement).toBe(movement)
+    expect(ranking.entered).toEqual([])
+    expect(ranking.left).toEqual([])
+    expect(ranking.rows.every(item => item.previousRank === undefined)).toBe(true)
+  })
+
+  it("件數相同時依名稱排序", () => {
+    const rows = [row("2025-01", "B", 4), row("2025-01", "A", 4)]
+    expect(rankModules(rows, JANUARY, null, 5).rows.map(item => item.name)).toEqual(["A", "B"])
+  })
+})
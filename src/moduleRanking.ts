@@ -0,0 +1,118 @@
+import { monthOverlaps, type DateRange } from "./dateRange"
+import type { ModuleMonthRow } from "./schema"
+
+// 模組排行：完整排名、柏拉圖累積佔比、與基準期間的名次變化，以及模組 × 月的件數矩陣
+
+export const TOP_N_OPTIONS = [5, 10, 20]
+
+export type ModuleRank = {
+  rank: number
+  name: string
+  value: number
+  // 佔本期總件數與累積佔比（%）
+  share: number
+  cumulative: number
+  // 基準期間的件數與名次；沒有基準期間時為 undefined，基準期間沒有案件時名次為 null
+  baseline?: number
+  previousRank?: number | null
+  delta?: number
+}
+
+// 名次變化能否比較：none 為沒有基準期間；sameMonths 為兩期涵蓋相同月份，月統計分不出兩期；
+// empty 為基準期間沒有模組資料
+export type RankMovement = "ok" | "none" | "sameMonths" | "empty"
+
+export type ModuleRanking = {
+  rows: ModuleRank[]
+  movement: RankMovement
+  // 本期進入前 N 名、跌出前 N 名的模組（需能比較名次變化）
+  entered: string[]
+  left: Array<{ name: string; previousRank: number; rank: number | null }>
+}
+
+const sumByModule = (rows: ModuleMonthRow[], range: DateRange) => {
+  const totals = new Map<string, number>()
+  for (const row of rows) {
+    if (!monthOverlaps(row.month, range)) continue
+    totals.set(row.module, (totals.get(row.module) ?? 0) + row.count)
+  }
+  return totals
+}
+
+// 兩個區間涵蓋的月份是否重疊；不限起訖視為無限延伸
+const monthsOverlap = (a: DateRange, b: DateRange) =>
+  (!a.start || !b.end || a.start.slice(0, 7) <= b.end.slice(0, 7)) &&
+  (!b.start || !a.end || b.start.slice(0, 7) <= a.end.slice(0, 7))
+
+// 件數相同時依名稱排序，名次才穩定
+const ranked = (totals: Map<string, number>) =>
+  Array.from(totals.entries())
+    .filter(([, value]) => value > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+
+/**
+ * 依件數排出所有模組。baselineRange 為 null、與本期涵蓋相同月份或沒有資料時不計算名次變化，
+ * 原因見 movement。
+ */
+export function rankModules(rows: ModuleMonthRow[], range: DateRange, baselineRange: DateRange | null, topN: number): ModuleRanking {
+  const current = ranked(sumByModule(rows, range))
+  const total = current.reduce((sum, [, value]) => sum + value, 0)
+  let movement: RankMovement = "none"
+  let baselineTotals: Map<string, number> | null = null
+  if (baselineRange && monthsOverlap(range, baselineRange)) movement = "sameMonths"
+  else if (baselineRange) {
+    const totals = sumByModule(rows, baselineRange)
+    movement = Array.from(totals.values()).some(value => value > 0) ? "ok" : "empty"
+    if (movement === "ok") baselineTotals = totals
+  }
+  const previousRanks = new Map(baselineTotals ? ranked(baselineTotals).map(([name], index) => [name, index + 1]) : [])
+
+  let cumulative = 0
+  const result = current.map(([name, value], index): ModuleRank => {
+    cumulative += value
+    const row: ModuleRank = {
+      rank: index + 1,
+      name,
+      value,
+      share: total ? (value / total) * 100 : 0,
+      cumulative: total ? (cumulative / total) * 100 : 0,
+    }
+    if (!baselineTotals) return row
+    const baseline = baselineTotals.get(name) ?? 0
+    return { ...row, baseline, previousRank: previousRanks.get(name) ?? null, delta: value - baseline }
+  })
+
+  if (!baselineTotals) return { rows: result, movement, entered: [], left: [] }
+  const currentRanks = new Map(result.map(row => [row.name, row.rank]))
+  const entered = result
+    .filter(row => row.rank <= topN && (row.previousRank == null || row.previousRank > topN))
+    .map(row => row.name)
+  const left = Array.from(previousRanks.entries())
+    .filter(([name, rank]) => rank <= topN && (currentRanks.get(name) ?? Infinity) > topN)
+    .map(([name, previousRank]) => ({ name, previousRank, rank: currentRanks.get(name) ?? null }))
+  return { rows: result, movement, entered, left }
+}
+
+export type ModuleMonthMatrix = {
+  months: string[]
+  // 依期間內總件數排序
+  modules: string[]
+  // counts[module][month]
+  counts: Record<string, Record<string, number>>
+  max: number
+}
+
+/** 期間內每個模組逐月的件數，供熱度圖使用。 */
+export function moduleMonthMatrix(rows: ModuleMonthRow[], range: DateRange): ModuleMonthMatrix {
+  const counts: Record<string, Record<string, number>> = {}
+  const months = new Set<string>()
+  for (const row of rows) {
+    if (!monthOverlaps(row.month, range)) continue
+    months.add(row.month)
+    counts[row.module] ??= {}
+    counts[row.module][row.month] = (counts[row.module][row.month] ?? 0) + row.count
+  }
+  const modules = ranked(sumByModule(rows, range)).map(([name]) => name)
+  const max = Math.max(0, ...Object.values(counts).flatMap(byMonth => Object.values(byMonth)))
+  return { months: Array.from(months).sort(), modules, counts, max }
+}
@@ -0,0 +1,215 @@
+import { DATASET_SCHEMAS, UNASSIGNED, UNCATEGORIZED } from "./schema"
+import type {
+  AvgDurationRow,
+  CallRow,
+  CategoryTrendRow,
+  FieldDef,
+  ModuleMonthRow,
+  ParsedDataset,
+  RowIssue,
+  SchemaKey,
+  TrendRow,
+} from "./schema"
+
+// 處理時間超過 30 天視為不合理（多半是單位或日期填錯）
+export const ABSURD_RESOLVE_MINUTES = 60 * 24 * 30
+
+export type QualityCheck = {
+  id: string
+  label: string
+  // 可下載的問題列：說明欄位在前，原始欄位在後
+  rows: Array<Record<string, unknown>>
+}
+
+export type DatasetQuality = {
+  dataset: SchemaKey
+  total: number
+  rejected: number
+  unknownColumns: string[]
+  checks: QualityCheck[]
+}
+
+export type TrendMismatch = { date: string; trend: number; calls: number; diff: number }
+
+export type CategoryMismatch = { date: string; category: string; sheet: number; calls: number; diff: number }
+
+export type CategoryReconciliation = {
+  from: string | null
+  to: string | null
+  compared: number
+  mismatches: CategoryMismatch[]
+}
+
+export type QualityReport = {
+  datasets: DatasetQuality[]
+  crossCheck: {
+    // 比對範圍：案件明細有資料的日期區間
+    from: string | null
+    to: string | null
+    compared: number
+    mismatches: TrendMismatch[]
+  }
+  // 分類趨勢表 × 案件明細；未設定分類趨勢表時為 null
+  categoryCheck: CategoryReconciliation | null
+}
+
+export type ParsedDatasets = {
+  trend: ParsedDataset<TrendRow>
+  moduleByMonth: ParsedDataset<ModuleMonthRow>
+  avgCallDuration: ParsedDataset<AvgDurationRow>
+  calls: ParsedDataset<CallRow>
+  categoryTrend: ParsedDataset<CategoryTrendRow>
+}
+
+const DATE_FIELDS = new Set(["date", "month", "callTime", "callMonth"])
+const NUMBER_FIELDS = new Set(["count", "value"])
+
+const issueRow = (issue: RowIssue, note: string) => ({
+  列號: issue.row,
+  問題: note,
+  ...issue.source,
+})
+
+function issueChecks(issues: RowIssue[]): QualityCheck[] {
+  const dates = issues.filter((i) => i.kind === "invalid" && DATE_FIELDS.has(i.field))
+  // 分類趨勢的每個分類欄位都是件數
+  const isNumberField = (i: RowIssue) => NUMBER_FIELDS.has(i.field) || (i.dataset === "categoryTrend" && i.field !== "date")
+  const numbers = issues.filter((i) => i.kind === "invalid" && isNumberField(i))
+  // 被剔除的列可能同時有多個欄位問題，合併成一筆
+  const rejected = new Map<number, RowIssue[]>()
+  for (const issue of issues) {
+    if (!issue.rejected) continue
+    if (!rejected.has(issue.row)) rejected.set(issue.row, [])
+    rejected.get(issue.row)!.push(issue)
+  }
+  return [
+    { id: "date", label: "無法解析的日期", rows: dates.map((i) => issueRow(i, `${i.field}：${String(i.value)}`)) },
+    { id: "number", label: "非數字的件數或數值", rows: numbers.map((i) => issueRow(i, `${i.field}：${String(i.value)}`)) },
+    {
+      id: "rejected",
+      label: "無法使用而剔除的列",
+      rows: Array.from(rejected.values()).map((list) => issueRow(list[0], list.map((i) => `${i.field} ${i.kind === "missing" ? "缺漏" : "格式錯誤"}`).join("、"))),
+    },
+  ]
+}
+
+function duplicateCheck<T>(rows: T[], keyOf: (row: T) => string, toRecord: (row: T) => Record<string, unknown>): QualityCheck {
+  const seen = new Map<string, number>()
+  for (const row of rows) {
+    const key = keyOf(row)
+    seen.set(key, (seen.get(key) ?? 0) + 1)
+  }
+  const out = rows.filter((row) => (seen.get(keyOf(row)) ?? 0) > 1).map((row) => ({ 問題: "重複", ...toRecord(row) }))
+  return { id: "duplicate", label: "重複資料", rows: out }
+}
+
+function unknownColumns(dataset: SchemaKey, columns: string[]) {
+  // 分類趨勢是寬表，日期以外的欄位都視為分類
+  if (dataset === "categoryTrend") return []
+  const known = new Set<string>()
+  for (const def of Object.values<FieldDef>(DATASET_SCHEMAS[dataset])) def.aliases.forEach((alias) => known.add(alias))
+  // __parsed_extra 是 Papa Parse 放置多出欄位值的鍵
+  return columns.filter((col) => col && !known.has(col) && col !== "__parsed_extra")
+}
+
+function summarize<T>(
+  dataset: SchemaKey,
+  parsed: ParsedDataset<T>,
+  extra: QualityCheck[],
+): DatasetQuality {
+  const rejectedRows = new Set(parsed.issues.filter((i) => i.rejected).map((i) => i.row))
+  return {
+    dataset,
+    total: parsed.rows.length + rejectedRows.size,
+    rejected: rejectedRows.size,
+    unknownColumns: unknownColumns(dataset, parsed.columns),
+    checks: [...issueChecks(parsed.issues), ...extra].filter((check) => check.rows.length),
+  }
+}
+
+function crossCheck(trend: TrendRow[], calls: CallRow[]): QualityReport["crossCheck"] {
+  const byDate = new Map<string, number>()
+  for (const call of calls) {
+    if (!call.date) continue
+    byDate.set(call.date, (byDate.get(call.date) ?? 0) + 1)
+  }
+  const dates = Array.from(byDate.keys()).sort()
+  if (!dates.length) return { from: null, to: null, compared: 0, mismatches: [] }
+  const from = dates[0]
+  const to = dates[dates.length - 1]
+  const mismatches: TrendMismatch[] = []
+  let compared = 0
+  for (const row of trend) {
+    if (row.date < from || row.date > to) continue
+    compared += 1
+    const derived = byDate.get(row.date) ?? 0
+    if (derived !== row.count) mismatches.push({ date: row.date, trend: row.count, calls: derived, diff: row.count - derived })
+  }
+  return { from, to, compared, mismatches }
+}
+
+/** 在案件明細涵蓋的日期內，逐日逐分類比對分類趨勢表與明細計算的件數。 */
+export function reconcileCategoryTrend(rows: CategoryTrendRow[], calls: CallRow[]): CategoryReconciliation {
+  const byDate = new Map<string, Map<string, number>>()
+  for (const call of calls) {
+    if (!call.date) continue
+    if (!byDate.has(call.date)) byDate.set(call.date, new Map())
+    const bucket = byDate.get(call.date)!
+    bucket.set(call.category, (bucket.get(call.category) ?? 0) + 1)
+  }
+  const dates = Array.from(byDate.keys()).sort()
+  if (!dates.length) return { from: null, to: null, compared: 0, mismatches: [] }
+  const from = dates[0]
+  const to = dates[dates.length - 1]
+  const mismatches: CategoryMismatch[] = []
+  let compared = 0
+  for (const row of rows) {
+    if (row.date < from || row.date > to) continue
+    compared += 1
+    const derived = byDate.get(row.date) ?? new Map<string, number>()
+    const categories = new Set([...Object.keys(row.counts), ...derived.keys()])
+    for (const category of categories) {
+      const sheet = row.counts[category] ?? 0
+      const count = derived.get(category) ?? 0
+      if (sheet !== count) mismatches.push({ date: row.date, category, sheet, calls: count, diff: sheet - count })
+    }
+  }
+  return { from, to, compared, mismatches }
+}
+
+export function buildQualityReport(parsed: ParsedDatasets): QualityReport {
+  const { trend, moduleByMonth, avgCallDuration, calls, categoryTrend } = parsed
+
+  const negative = calls.rows.filter((r) => r.resolveMinute != null && r.resolveMinute < 0)
+  const absurd = calls.rows.filter((r) => r.resolveMinute != null && r.resolveMinute > ABSURD_RESOLVE_MINUTES)
+  const uncategorized = calls.issues.filter((i) => !i.rejected && i.field === "category")
+  const unassigned = calls.issues.filter((i) => !i.rejected && i.field === "module")
+  const missingMinutes = calls.issues.filter((i) => !i.rejected && i.field === "resolveMinute")
+
+  const callChecks: QualityCheck[] = [
+    { id: "negative", label: "處理時間為負值（圖表以 0 計）", rows: negative.map((r) => ({ 問題: `resolve_minute：${r.resolveMinute}`, ...r.source })) },
+    { id: "absurd", label: "處理時間超過 30 天", rows: absurd.map((r) => ({ 問題: `resolve_minute：${r.resolveMinute}`, ...r.source })) },
+    { id: "resolve-missing", label: "處理時間未填或非數字", rows: missingMinutes.map((i) => issueRow(i, `resolve_minute：${String(i.value ?? "")}`)) },
+    { id: "uncategorized", label: `分類空白，歸入「${UNCATEGORIZED}」`, rows: uncategorized.map((i) => issueRow(i, UNCATEGORIZED)) },
+    { id: "unassigned", label: `模組空白，歸入「${UNASSIGNED}」`, rows: unassigned.map((i) => issueRow(i, UNASSIGNED)) },
+    duplicateCheck(calls.rows, (r) => JSON.stringify(r.source), (r) => r.source),
+  ]
+
+  return {
+    datasets: [
+      summarize("trend", trend, [duplicateCheck(trend.rows, (r) => r.date, (r) => ({ ...r }))]),
+      summarize("moduleByMonth", moduleByMonth, [
+        duplicateCheck(moduleByMonth.rows, (r) => `${r.month}|${r.module}`, (r) => ({ ...r })),
+      ]),
+      summarize("avgCallDuration", avgCallDuration, [
+        duplicateCheck(avgCallDuration.rows, (r) => r.month, (r) => ({ ...r })),
+      ]),
+      summarize("calls", calls, callChecks),
+      summarize("categoryTrend", categoryTrend, [
+        duplicateCheck(categoryTrend.rows, (r) => r.date, (r) => ({ date: r.date, ...r.counts })),
+      ]),
+    ],
+    crossCheck: crossCheck(trend.rows, calls.rows),
+    categoryCheck: categoryTrend.rows.length ? reconcileCategoryTrend(categoryTrend.rows, calls.rows) : null,
+  }
+}
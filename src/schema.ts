@@ -0,0 +1,266 @@
+import dayjs from "dayjs"
+import type { CsvRow } from "./data"
+
+// 各資料集的欄位定義：欄位名稱別名依序比對，第一個有值的欄位為準
+
+type FieldType = "date" | "datetime" | "month" | "number" | "string"
+
+export type FieldDef = {
+  aliases: string[]
+  type: FieldType
+  // 必填欄位缺漏或格式錯誤時整列剔除；非必填只標記問題
+  required: boolean
+}
+
+export const DATASET_SCHEMAS = {
+  trend: {
+    date: { aliases: ["日期", "date", "Date"], type: "date", required: true },
+    count: { aliases: ["件數", "count", "Count"], type: "number", required: true },
+  },
+  moduleByMonth: {
+    month: { aliases: ["month", "月份", "Month"], type: "month", required: true },
+    module: { aliases: ["module", "模組", "Module"], type: "string", required: true },
+    count: { aliases: ["count", "件數", "Count"], type: "number", required: true },
+  },
+  avgCallDuration: {
+    month: { aliases: ["month", "月份", "Month"], type: "month", required: true },
+    value: {
+      aliases: ["avg_call_duration", "平均處理時長", "平均處理時長(分)", "AvgCallDuration", "avg"],
+      type: "number",
+      required: true,
+    },
+  },
+  calls: {
+    callTime: { aliases: ["call_time", "通話時間", "CallTime"], type: "datetime", required: false },
+    callMonth: { aliases: ["call_month", "month", "月份"], type: "month", required: false },
+    category: { aliases: ["category", "分類", "Category", "呼叫分類", "類別"], type: "string", required: false },
+    module: { aliases: ["module", "模組", "Module", "呼叫模組", "系統"], type: "string", required: false },
+    resolveMinute: { aliases: ["resolve_minute", "resolve_minutes"], type: "number", required: false },
+  },
+  // 寬表：除日期外，其餘每一欄都是一個分類的件數
+  categoryTrend: {
+    date: { aliases: ["日期", "date", "Date"], type: "date", required: true },
+  },
+} satisfies Record<string, Record<string, FieldDef>>
+
+export type SchemaKey = keyof typeof DATASET_SCHEMAS
+
+export type TrendRow = { date: string; count: number }
+
+export type ModuleMonthRow = { month: string; year: string; module: string; count: number }
+
+export type AvgDurationRow = { month: string; year: string; value: number }
+
+export type CategoryTrendRow = {
+  date: string
+  month: string
+  year: string
+  // 分類 → 件數；空白儲存格不列入
+  counts: Record<string, number>
+}
+
+export type CallRow = {
+  // 原始 call_time 字串，供明細表顯示
+  callTime: string
+  date: string | null
+  month: string
+  year: string
+  category: string
+  module: string
+  // 未填或非數字時為 null；負值保留原值，由使用端決定如何處理
+  resolveMinute: number | null
+  source: CsvRow
+}
+
+export const UNCATEGORIZED = "未分類"
+export const UNASSIGNED = "未指派"
+
+export type RowIssue = {
+  dataset: SchemaKey
+  // 原始資料的第幾列（從 1 起算，不含表頭）
+  row: number
+  field: string
+  kind: "missing" | "invalid"
+  value: unknown
+  rejected: boolean
+  source: CsvRow
+}
+
+export type ParsedDataset<T> = {
+  rows: T[]
+  issues: RowIssue[]
+  // 原始資料出現過的所有欄位名稱
+  columns: string[]
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ""
+
+export const monthKey = (value: unknown) => {
+  const d = dayjs(value as string)
+  return d.isValid() ? d.format("YYYY-MM") : String(value ?? "").slice(0, 7)
+}
+
+const convert = (type: FieldType, value: unknown): string | number | null => {
+  switch (type) {
+    case "number": {
+      const n = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""))
+      return Number.isFinite(n) ? n : null
+    }
+    case "date": {
+      const d = dayjs(value as string)
+      return d.isValid() ? d.format("YYYY-MM-DD") : null
+    }
+    case "datetime":
+      return dayjs(value as string).isValid() ? String(value) : null
+    case "month": {
+      const mk = monthKey(value)
+      return /^\d{4}-\d{2}$/.test(mk) ? mk : null
+    }
+    default:
+      return String(value).trim() || null
+  }
+}
+
+function readFields<S extends Record<string, FieldDef>>(
+  dataset: SchemaKey,
+  schema: S,
+  raw: CsvRow,
+  index: number,
+  issues: RowIssue[],
+) {
+  const values = {} as Record<keyof S, string | number | null>
+  let rejected = false
+  for (const field of Object.keys(schema) as Array<keyof S & string>) {
+    const def = schema[field]
+    const alias = def.aliases.find((name) => !isBlank(raw[name]))
+    const value = alias ? raw[alias] : undefined
+    const parsed = alias ? convert(def.type, value) : null
+    if (parsed === null) {
+      if (def.required) rejected = true
+      issues.push({
+        dataset,
+        row: index + 1,
+        field,
+        kind: alias ? "invalid" : "missing",
+        value,
+        rejected: def.required,
+        source: raw,
+      })
+    }
+    values[field] = parsed
+  }
+  return { values, rejected }
+}
+
+function collectColumns(rows: CsvRow[]) {
+  const set = new Set<string>()
+  for (const row of rows) Object.keys(row).forEach((key) => set.add(key))
+  return Array.from(set)
+}
+
+function parseWith<S extends Record<string, FieldDef>, T>(
+  dataset: SchemaKey,
+  schema: S,
+  rows: CsvRow[],
+  build: (values: Record<keyof S, string | number | null>, raw: CsvRow, index: number, issues: RowIssue[]) => T | null,
+): ParsedDataset<T> {
+  const issues: RowIssue[] = []
+  const out: T[] = []
+  rows.forEach((raw, index) => {
+    // 完全空白的列（試算表尾端常見）直接略過
+    if (Object.values(raw).every(isBlank)) return
+    const fieldIssues: RowIssue[] = []
+    const { values, rejected } = readFields(dataset, schema, raw, index, fieldIssues)
+    if (rejected) {
+      fieldIssues.forEach((issue) => { issue.rejected = true })
+      issues.push(...fieldIssues)
+      return
+    }
+    const row = build(values, raw, index, fieldIssues)
+    issues.push(...fieldIssues)
+    if (row) out.push(row)
+  })
+  return { rows: out, issues, columns: collectColumns(rows) }
+}
+
+export function parseTrend(rows: CsvRow[]): ParsedDataset<TrendRow> {
+  const parsed = parseWith("trend", DATASET_SCHEMAS.trend, rows, (v) => ({
+    date: v.date as string,
+    count: v.count as number,
+  }))
+  parsed.rows.sort((a, b) => a.date.localeCompare(b.date))
+  return parsed
+}
+
+export function parseModuleByMonth(rows: CsvRow[]): ParsedDataset<ModuleMonthRow> {
+  return parseWith("moduleByMonth", DATASET_SCHEMAS.moduleByMonth, rows, (v) => ({
+    month: v.month as string,
+    year: (v.month as string).slice(0, 4),
+    module: v.module as string,
+    count: v.count as number,
+  }))
+}
+
+export function parseAvgDuration(rows: CsvRow[]): ParsedDataset<AvgDurationRow> {
+  const parsed = parseWith("avgCallDuration", DATASET_SCHEMAS.avgCallDuration, rows, (v) => ({
+    month: v.month as string,
+    year: (v.month as string).slice(0, 4),
+    value: v.value as number,
+  }))
+  parsed.rows.sort((a, b) => a.month.localeCompare(b.month))
+  return parsed
+}
+
+export function parseCalls(rows: CsvRow[]): ParsedDataset<CallRow> {
+  return parseWith("calls", DATASET_SCHEMAS.calls, rows, (v, raw, _index, issues) => {
+    const callTime = v.callTime as string | null
+    const d = callTime ? dayjs(callTime) : null
+    const month = (v.callMonth as string | null) ?? (d ? d.format("YYYY-MM") : null)
+    // 沒有任何可判斷月份的欄位時無法歸入期間，整列剔除
+    if (!month) {
+      issues.forEach((issue) => { issue.rejected = true })
+      return null
+    }
+    // call_month 可由 call_time 推得時不算缺漏
+    const monthIssue = issues.findIndex((issue) => issue.field === "callMonth" && issue.kind === "missing")
+    if (monthIssue >= 0) issues.splice(monthIssue, 1)
+    return {
+      callTime: callTime ?? "",
+      date: d ? d.format("YYYY-MM-DD") : null,
+      month,
+      year: month.slice(0, 4),
+      category: (v.category as string | null) ?? UNCATEGORIZED,
+      module: (v.module as string | null) ?? UNASSIGNED,
+      resolveMinute: v.resolveMinute as number | null,
+      source: raw,
+    }
+  })
+}
+
+// Papa Parse 把多出來的欄位值放在 __parsed_extra，不是分類
+const NON_CATEGORY_COLUMNS = new Set([...DATASET_SCHEMAS.categoryTrend.date.aliases, "__parsed_extra"])
+
+/** 分類欄位：寬表中日期以外的所有欄位，依原始順序。 */
+export function categoryColumns(columns: string[]) {
+  return columns.filter((col) => col && !NON_CATEGORY_COLUMNS.has(col))
+}
+
+export function parseCategoryTrend(rows: CsvRow[]): ParsedDataset<CategoryTrendRow> {
+  const parsed = parseWith("categoryTrend", DATASET_SCHEMAS.categoryTrend, rows, (v, raw, index, issues) => {
+    const date = v.date as string
+    const counts: Record<string, number> = {}
+    for (const category of categoryColumns(Object.keys(raw))) {
+      const value = raw[category]
+      if (isBlank(value)) continue
+      const n = convert("number", value) as number | null
+      if (n === null) {
+        issues.push({ dataset: "categoryTrend", row: index + 1, field: category, kind: "invalid", value, rejected: false, source: raw })
+        continue
+      }
+      counts[category] = n
+    }
+    return { date, month: date.slice(0, 7), year: date.slice(0, 4), counts }
+  })
+  parsed.rows.sort((a, b) => a.date.localeCompare(b.date))
+  return parsed
+}
@@ -0,0 +1,52 @@
+// SLA 規則：依分類、模組指定處理時限（分鐘）。只含計算邏輯，worker 也會載入；保存與訂閱見 useSlaRules
+
+export type SlaRule = {
+  // null 表示不限；兩者皆為 null 即為預設時限
+  category: string | null
+  module: string | null
+  minutes: number
+}
+
+type Target = { category: string; module: string }
+
+/**
+ * 找出案件適用的時限：同時指定分類與模組的規則優先，其次只指定其一的規則，最後是預設規則；
+ * 同一層級有多條符合時取清單中較前面的。沒有任何規則適用時回傳 null（不列入達成率）。
+ */
+export function slaTarget(rules: SlaRule[], row: Target): number | null {
+  let best: SlaRule | null = null
+  let bestScore = -1
+  for (const rule of rules) {
+    if (rule.category != null && rule.category !== row.category) continue
+    if (rule.module != null && rule.module !== row.module) continue
+    const score = (rule.category != null ? 1 : 0) + (rule.module != null ? 1 : 0)
+    if (score > bestScore) {
+      best = rule
+      bestScore = score
+    }
+  }
+  return best ? best.minutes : null
+}
+
+export const describeRule = (rule: SlaRule) =>
+  [rule.category ? `分類「${rule.category}」` : null, rule.module ? `模組「${rule.module}」` : null].filter(Boolean).join("、") || "預設"
+
+const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null)
+
+/**
+ * 解析匯入的 JSON：可為規則陣列或 { "rules": [...] }，每條規則含 category、module（可省略）與 minutes。
+ * 格式錯誤時拋出錯誤，訊息指出第幾條規則。
+ */
+export function parseSlaRules(json: unknown): SlaRule[] {
+  const list = Array.isArray(json) ? json : (json as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(list)) throw new Error("SLA 規則需為陣列，或含 rules 陣列的物件")
+  return list.map((item, index) => {
+    if (!item || typeof item !== "object") throw new Error(`第 ${index + 1} 條規則格式錯誤`)
+    const raw = item as Record<string, unknown>
+    const minutes = typeof raw.minutes === "string" ? Number(raw.minutes) : raw.minutes
+    if (typeof minutes !== "number" || !Number.isFinite(minutes) || minutes <= 0) {
+      throw new Error(`第 ${index + 1} 條規則的 minutes 需為正數`)
+    }
+    return { category: text(raw.category), module: text(raw.module), minutes }
+  })
+}
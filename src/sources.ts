@@ -0,0 +1,201 @@
+import { useSyncExternalStore } from "react"
+import { createLocalStore } from "./localStore"
+
+export type DatasetKey = "trend" | "moduleByMonth" | "avgCallDuration" | "calls" | "categoryTrend"
+
+export type SourceBinding =
+  | { kind: "url"; url: string }
+  | { kind: "file"; fileName: string; importedAt: number }
+  | { kind: "disabled" }
+
+export type SourceConfig = Record<DatasetKey, SourceBinding>
+
+// 各資料集自動更新間隔（分鐘），0 表示不自動更新；只對網址來源有效
+export type RefreshConfig = Record<DatasetKey, number>
+
+export const DATASET_KEYS: DatasetKey[] = ["trend", "moduleByMonth", "avgCallDuration", "calls", "categoryTrend"]
+
+export const DATASET_LABELS: Record<DatasetKey, string> = {
+  trend: "每日趨勢",
+  moduleByMonth: "模組月統計",
+  avgCallDuration: "平均處理時長",
+  calls: "案件明細",
+  categoryTrend: "分類趨勢",
+}
+
+const SHEET_BASE = "https://docs.google.com/spreadsheets/d/e/2PACX-1vS3CFFG7hUU8oLryXhjneEWI1ZbqqDzd6QyppdKkkWLBARdgpVPh4vWezp1fgyiN07Iop7kKm06XEnB/pub"
+const sheetUrl = (gid: string) => `${SHEET_BASE}?gid=${gid}&single=true&output=csv`
+
+// 內建預設：原本寫死在 useSheets 的試算表
+const BUILTIN_SOURCES: SourceConfig = {
+  trend: { kind: "url", url: sheetUrl("1697285422") },
+  moduleByMonth: { kind: "url", url: sheetUrl("1369816097") },
+  avgCallDuration: { kind: "url", url: sheetUrl("1897042583") },
+  calls: { kind: "url", url: sheetUrl("372972500") },
+  // 分類趨勢（寬表：第一欄日期，其餘欄位為各分類件數）
+  categoryTrend: { kind: "disabled" },
+}
+
+const DEFAULT_REFRESH: RefreshConfig = {
+  trend: 15,
+  moduleByMonth: 15,
+  avgCallDuration: 15,
+  calls: 15,
+  categoryTrend: 15,
+}
+
+export const REFRESH_OPTIONS = [0, 1, 5, 15, 30, 60]
+
+const overridesStore = createLocalStore("ivv-dashboard:sources", parseConfig)
+const refreshStore = createLocalStore("ivv-dashboard:refresh", parseRefresh)
+const CONFIG_URL = `${import.meta.env.BASE_URL}sources.json`
+
+type SourceState = {
+  ready: boolean
+  // 部署設定檔（sources.json）覆寫後的基準設定
+  base: SourceConfig
+  // 使用者在設定面板調整、存在 localStorage 的覆寫
+  overrides: Partial<SourceConfig>
+  refreshBase: RefreshConfig
+  refreshOverrides: Partial<RefreshConfig>
+}
+
+// 本機檔案內容只保留在記憶體；重新整理後需重新選擇檔案
+const fileContents = new Map<DatasetKey, File>()
+
+let state: SourceState = {
+  ready: false,
+  base: BUILTIN_SOURCES,
+  overrides: overridesStore.get(),
+  refreshBase: DEFAULT_REFRESH,
+  refreshOverrides: refreshStore.get(),
+}
+const listeners = new Set<() => void>()
+let snapshot: SourceConfig & { ready: boolean; refresh: RefreshConfig } = buildSnapshot()
+
+function buildSnapshot() {
+  return {
+    ...state.base,
+    ...state.overrides,
+    ready: state.ready,
+    refresh: { ...state.refreshBase, ...state.refreshOverrides },
+  }
+}
+
+function setState(next: SourceState) {
+  state = next
+  snapshot = buildSnapshot()
+  listeners.forEach((fn) => fn())
+}
+
+// 設定檔允許簡寫：字串視為網址，null / false 視為停用
+function parseBinding(value: unknown): SourceBinding | null {
+  if (value === null || value === false) return { kind: "disabled" }
+  if (typeof value === "string") return value.trim() ? { kind: "url", url: value.trim() } : { kind: "disabled" }
+  if (!value || typeof value !== "object") return null
+  const raw = value as Record<string, unknown>
+  if (raw.kind === "disabled") return { kind: "disabled" }
+  if (raw.kind === "url" && typeof raw.url === "string") return { kind: "url", url: raw.url.trim() }
+  if (raw.kind === "file" && typeof raw.fileName === "string") {
+    return { kind: "file", fileName: raw.fileName, importedAt: Number(raw.importedAt) || 0 }
+  }
+  return null
+}
+
+function parseConfig(value: unknown): Partial<SourceConfig> {
+  const out: Partial<SourceConfig> = {}
+  if (!value || typeof value !== "object") return out
+  const raw = value as Record<string, unknown>
+  for (const key of DATASET_KEYS) {
+    if (!(key in raw)) continue
+    const binding = parseBinding(raw[key])
+    if (binding) out[key] = binding
+  }
+  return out
+}
+
+// 設定檔的 refresh 可以是單一數字（套用全部）或依資料集指定
+function parseRefresh(value: unknown): Partial<RefreshConfig> {
+  const out: Partial<RefreshConfig> = {}
+  const valid = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n >= 0
+  if (valid(value)) {
+    for (const key of DATASET_KEYS) out[key] = value as number
+    return out
+  }
+  if (!value || typeof value !== "object") return out
+  const raw = value as Record<string, unknown>
+  for (const key of DATASET_KEYS) if (valid(raw[key])) out[key] = raw[key] as number
+  return out
+}
+
+/** 啟動時讀取部署設定檔；檔案不存在或格式錯誤時沿用內建預設。 */
+export async function loadSourceConfig() {
+  let base = BUILTIN_SOURCES
+  let refreshBase = DEFAULT_REFRESH
+  try {
+    const res = await fetch(CONFIG_URL, { cache: "no-store" })
+    if (res.ok) {
+      const json = await res.json()
+      base = { ...BUILTIN_SOURCES, ...parseConfig(json) }
+      refreshBase = { ...DEFAULT_REFRESH, ...parseRefresh(json?.refresh) }
+    }
+  } catch {
+    // 沒有設定檔是常態
+  }
+  setState({ ...state, ready: true, base, refreshBase })
+}
+
+export function saveSourceOverrides(config: SourceConfig, files: Partial<Record<DatasetKey, File>> = {}) {
+  const overrides: Partial<SourceConfig> = {}
+  for (const key of DATASET_KEYS) {
+    const file = files[key]
+    if (file) fileContents.set(key, file)
+    if (JSON.stringify(config[key]) !== JSON.stringify(state.base[key])) overrides[key] = config[key]
+  }
+  overridesStore.set(overrides)
+  setState({ ...state, overrides })
+}
+
+export function saveRefreshOverrides(refresh: RefreshConfig) {
+  const overrides: Partial<RefreshConfig> = {}
+  for (const key of DATASET_KEYS) {
+    if (refresh[key] !== state.refreshBase[key]) overrides[key] = refresh[key]
+  }
+  refreshStore.set(overrides)
+  setState({ ...state, refreshOverrides: overrides })
+}
+
+/** 將匯入的本機檔案綁定到指定資料集，其餘資料集維持目前設定。 */
+export function bindSourceFiles(files: Partial<Record<DatasetKey, File>>) {
+  const config = { ...state.base, ...state.overrides }
+  for (const key of DATASET_KEYS) {
+    const file = files[key]
+    if (file) config[key] = { kind: "file", fileName: file.name, importedAt: Date.now() }
+  }
+  saveSourceOverrides(config, files)
+}
+
+export function resetSourceOverrides() {
+  fileContents.clear()
+  overridesStore.set({})
+  refreshStore.set({})
+  setState({ ...state, overrides: {}, refreshOverrides: {} })
+}
+
+export function getSourceFile(key: DatasetKey) {
+  return fileContents.get(key) ?? null
+}
+
+export function isSourceEnabled(binding: SourceBinding) {
+  if (binding.kind === "url") return Boolean(binding.url)
+  return binding.kind === "file"
+}
+
+function subscribe(fn: () => void) {
+  listeners.add(fn)
+  return () => { listeners.delete(fn) }
+}
+
+export function useDataSources() {
+  return useSyncExternalStore(subscribe, () => snapshot)
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_STAFFING, erlangC, headcount, requiredAgents } from "./staffing"
+
+describe("erlangC", () => {
+  // 10 Erlang 時的等候機率（Erlang C 公式的常見對照表）
+  it.each([
+    [11, 0.6821],
+    [12, 0.4494],
+    [13, 0.2853],
+    [14, 0.1741],
+    [15, 0.102],
+  ])("%i 人處理 10 Erlang 時等候機率為 %f", (agents, probability) => {
+    expect(erlangC(agents, 10)).toBeCloseTo(probability, 4)
+  })
+
+  it.each([
+    [10, 10],
+    [5, 10],
+  ])("%i 人不超過 %i Erlang 時一定要等", (agents, traffic) => {
+    expect(erlangC(agents, traffic)).toBe(1)
+  })
+})
+
+describe("requiredAgents", () => {
+  it.each([
+    // 每小時 200 件、平均 3 分鐘：13 人只有 79.6%，需要 14 人
+    [200, 3, { serviceLevel: 80, answerSeconds: 20 }, 14, 88.8],
+    [200, 3, { serviceLevel: 90, answerSeconds: 20 }, 15, 94.1],
+    [20, 6, { serviceLevel: 80, answerSeconds: 20 }, 4, 84.4],
+  ])("每小時 %i 件、%i 分鐘、目標 %j 時需要 %i 人（%f%）", (calls, aht, target, agents, level) => {
+    const result = requiredAgents(calls, aht, { ...DEFAULT_STAFFING, ...target })
+    expect(result.agents).toBe(agents)
+    expect(result.serviceLevel).toBeCloseTo(level, 1)
+    expect(result.occupancy).toBeCloseTo((result.traffic / agents) * 100, 6)
+  })
+
+  it("沒有進件時不需要人力", () => {
+    expect(requiredAgents(0, 3, DEFAULT_STAFFING)).toEqual({ traffic: 0, agents: 0, serviceLevel: 100, occupancy: 0 })
+  })
+})
+
+describe("headcount", () => {
+  it.each([
+    [100, { shiftHours: 8, shrinkage: 30 }, 18],
+    [80, { shiftHours: 8, shrinkage: 0 }, 10],
+    [0, { shiftHours: 8, shrinkage: 30 }, 0],
+    [8, { shiftHours: 0, shrinkage: 30 }, 0],
+  ])("在線人時 %i、%j 時排 %i 人", (agentHours, params, count) => {
+    expect(headcount(agentHours, { ...DEFAULT_STAFFING, ...params })).toBe(count)
+  })
+})
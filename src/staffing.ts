@@ -0,0 +1,68 @@
+// 人力估算：以 Erlang C 排隊模型，由每小時進件量與平均處理時間推算需要同時在線的人數
+
+export type StaffingParams = {
+  // 目標服務水準：serviceLevel% 的來電在 answerSeconds 秒內接起
+  serviceLevel: number
+  answerSeconds: number
+  // 休假、訓練、會議等無法接聽的時間比例（%）
+  shrinkage: number
+  shiftHours: number
+}
+
+export const DEFAULT_STAFFING: StaffingParams = {
+  serviceLevel: 80,
+  answerSeconds: 20,
+  shrinkage: 30,
+  shiftHours: 8,
+}
+
+export type AgentEstimate = {
+  // 話務量（Erlang）：平均同時處理中的件數
+  traffic: number
+  agents: number
+  // 以 agents 人可達到的服務水準與人員忙碌比例（%）
+  serviceLevel: number
+  occupancy: number
+}
+
+// 服務水準 100% 在模型中達不到，上限設為 99.9%；耗損比例同理
+const MAX_SERVICE_LEVEL = 0.999
+const MAX_SHRINKAGE = 0.95
+
+/** Erlang C：agents 人處理 traffic Erlang 的話務時，來電需要等候的機率。 */
+export function erlangC(agents: number, traffic: number): number {
+  if (agents <= traffic) return 1
+  // 遞迴計算 Erlang B 避免階乘溢位，再換算成 Erlang C
+  let b = 1
+  for (let n = 1; n <= agents; n += 1) b = (traffic * b) / (n + traffic * b)
+  return (agents * b) / (agents - traffic * (1 - b))
+}
+
+/** agents 人時，來電在 answerSeconds 秒內接起的比例（0～1）。 */
+export function serviceLevelOf(agents: number, traffic: number, ahtSeconds: number, answerSeconds: number) {
+  if (agents <= traffic) return 0
+  return 1 - erlangC(agents, traffic) * Math.exp((-(agents - traffic) * answerSeconds) / ahtSeconds)
+}
+
+/** 每小時 callsPerHour 件、平均處理 ahtMinutes 分鐘時，達成目標服務水準所需的最少在線人數。 */
+export function requiredAgents(callsPerHour: number, ahtMinutes: number, params: StaffingParams): AgentEstimate {
+  const traffic = (callsPerHour * ahtMinutes) / 60
+  if (!(traffic > 0)) return { traffic: 0, agents: 0, serviceLevel: 100, occupancy: 0 }
+  const target = Math.min(params.serviceLevel / 100, MAX_SERVICE_LEVEL)
+  const ahtSeconds = ahtMinutes * 60
+  // 在線人數必須大於話務量，佇列才不會無限增長
+  let agents = Math.floor(traffic) + 1
+  let level = serviceLevelOf(agents, traffic, ahtSeconds, params.answerSeconds)
+  while (level < target) {
+    agents += 1
+    level = serviceLevelOf(agents, traffic, ahtSeconds, params.answerSeconds)
+  }
+  return { traffic, agents, serviceLevel: level * 100, occupancy: (traffic / agents) * 100 }
+}
+
+/** 排班人數：在線人時換算成班數，再依耗損比例加計。 */
+export function headcount(agentHours: number, params: StaffingParams) {
+  if (!(agentHours > 0) || !(params.shiftHours > 0)) return 0
+  const shrinkage = Math.min(Math.max(params.shrinkage, 0) / 100, MAX_SHRINKAGE)
+  return Math.ceil(agentHours / params.shiftHours / (1 - shrinkage))
+}
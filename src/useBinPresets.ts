@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from "react"
+import { normalizeCuts } from "./aggregate"
+import { createLocalStore } from "./localStore"
+
+// 處理時間分佈的自訂分箱預設組保存在 localStorage，分箱編輯器與儀表板共用
+
+export type BinPreset = {
+  name: string
+  // 切點（分鐘）
+  cuts: number[]
+}
+
+const store = createLocalStore("ivv-dashboard:bin-presets", (json): BinPreset[] => {
+  if (!Array.isArray(json)) return []
+  return json
+    .filter((item): item is BinPreset => typeof item?.name === "string" && Array.isArray(item.cuts))
+    .map(item => ({ name: item.name, cuts: normalizeCuts(item.cuts.map(Number)) }))
+    .filter(item => item.cuts.length > 0)
+})
+
+/** 同名的預設組會被覆寫。 */
+export function saveBinPreset(preset: BinPreset) {
+  store.set([...store.get().filter(item => item.name !== preset.name), preset])
+}
+
+export function deleteBinPreset(name: string) {
+  store.set(store.get().filter(item => item.name !== name))
+}
+
+export function useBinPresets() {
+  return useSyncExternalStore(store.subscribe, store.get)
+}
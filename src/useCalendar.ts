@@ -0,0 +1,21 @@
+import { useMemo, useSyncExternalStore } from "react"
+import { makeCalendar, parseCalendarOverrides, type CalendarOverride } from "./calendar"
+import { createLocalStore } from "./localStore"
+
+// 工作日曆的使用者覆寫保存在 localStorage，設定面板與儀表板共用
+
+const store = createLocalStore("ivv-dashboard:calendar", (json): CalendarOverride[] => (json ? parseCalendarOverrides(json) : []))
+
+export function saveCalendarOverrides(next: CalendarOverride[]) {
+  store.set(next)
+}
+
+export function useCalendarOverrides() {
+  return useSyncExternalStore(store.subscribe, store.get)
+}
+
+/** 套用目前覆寫的工作日曆；覆寫變更時才重建。 */
+export function useWorkCalendar() {
+  const current = useCalendarOverrides()
+  return useMemo(() => makeCalendar(current), [current])
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react"
+import type { CallRow } from "./schema"
+import type { CallsView, CallsViewParams } from "./aggregate"
+import { CancelledError, requestCallsView } from "./workerClient"
+
+type ViewState = {
+  view: CallsView | null
+  // 結果所依據的明細陣列；索引必須對應這一份，而不是最新的 calls
+  calls: CallRow[]
+  key: string | null
+  error: string | null
+}
+
+/**
+ * 在 worker 中計算案件明細的彙總。參數變動時保留上一份結果並標記 pending，
+ * 過時的請求會被取消，不會覆蓋較新的結果。
+ */
+export function useCallsView(calls: CallRow[], params: CallsViewParams) {
+  const key = JSON.stringify(params)
+  const [state, setState] = useState<ViewState>({ view: null, calls, key: null, error: null })
+
+  useEffect(() => {
+    let active = true
+    const task = requestCallsView(calls, JSON.parse(key) as CallsViewParams)
+    task.promise
+      .then((view) => {
+        if (active) setState({ view, calls, key, error: null })
+      })
+      .catch((error: unknown) => {
+        if (!active || error instanceof CancelledError) return
+        setState((prev) => ({ ...prev, calls, key, error: error instanceof Error ? error.message : String(error) }))
+      })
+    return () => {
+      active = false
+      task.cancel()
+    }
+  }, [calls, key])
+
+  return {
+    view: state.view,
+    viewCalls: state.calls,
+    pending: state.key !== key || state.calls !== calls,
+    error: state.error,
+  }
+}
@@ -0,0 +1,44 @@
+import { useMemo, useState } from "react"
+import type { CallRow, TrendRow } from "./schema"
+import { diffData, hasChanges } from "./changes"
+
+type Baseline = {
+  // 資料來源設定；切換來源時重新建立基準，不視為新增
+  sourceKey: string
+  trend: TrendRow[]
+  calls: CallRow[]
+  at: number
+}
+
+/**
+ * 追蹤自動更新帶來的變化：以使用者上次確認（或首次載入）的資料為基準，
+ * 回傳之後新增的案件與日期。首次載入與更換來源不算變化。
+ */
+export function useDataChanges(trend: TrendRow[], calls: CallRow[], sourceKey: string, fetchedAt: number | null) {
+  const [baseline, setBaseline] = useState<Baseline | null>(null)
+  const now = fetchedAt ?? Date.now()
+
+  // 依 React 建議的「由前一次 render 推導」寫法，在 render 中調整基準
+  if (!baseline || baseline.sourceKey !== sourceKey) {
+    if (trend.length || calls.length) setBaseline({ sourceKey, trend, calls, at: now })
+  } else if ((!baseline.trend.length && trend.length) || (!baseline.calls.length && calls.length)) {
+    // 各資料集陸續載入完成時直接併入基準
+    setBaseline({
+      ...baseline,
+      trend: baseline.trend.length ? baseline.trend : trend,
+      calls: baseline.calls.length ? baseline.calls : calls,
+      at: Math.max(baseline.at, now),
+    })
+  }
+
+  const changes = useMemo(() => {
+    if (!baseline || baseline.sourceKey !== sourceKey) return null
+    if (baseline.trend === trend && baseline.calls === calls) return null
+    const diff = diffData(baseline, { trend, calls })
+    return hasChanges(diff) ? { ...diff, since: baseline.at } : null
+  }, [baseline, sourceKey, trend, calls])
+
+  const dismiss = () => setBaseline({ sourceKey, trend, calls, at: now })
+
+  return { changes, dismiss }
+}
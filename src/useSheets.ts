@@ -1,46 +1,141 @@
 import { useQuery } from "@tanstack/react-query"
-import { fetchCsv } from "./data"
+import { loadDataset } from "./workerClient"
+import { parseDataset, type LoadedDatasets } from "./datasets"
+import { readCachedDataset, writeCachedDataset } from "./cache"
+import { useDataChanges } from "./useDataChanges"
+import { DATASET_KEYS, getSourceFile, isSourceEnabled, useDataSources } from "./sources"
+import type { DatasetKey, SourceBinding } from "./sources"
 
-const TREND_URL  = "https://docs.google.com/spreadsheets/d/e/2PACX-1vS3CFFG7hUU8oLryXhjneEWI1ZbqqDzd6QyppdKkkWLBARdgpVPh4vWezp1fgyiN07Iop7kKm06XEnB/pub?gid=1697285422&single=true&output=csv"
-const MODULE_BY_MONTH_URL = "https://docs.google.com/spreadsheets/d/e/2PACX-1vS3CFFG7hUU8oLryXhjneEWI1ZbqqDzd6QyppdKkkWLBARdgpVPh4vWezp1fgyiN07Iop7kKm06XEnB/pub?gid=1369816097&single=true&output=csv"
-const AVG_DURATION_URL = "https://docs.google.com/spreadsheets/d/e/2PACX-1vS3CFFG7hUU8oLryXhjneEWI1ZbqqDzd6QyppdKkkWLBARdgpVPh4vWezp1fgyiN07Iop7kKm06XEnB/pub?gid=1897042583&single=true&output=csv"
-const CALLS_URL = "https://docs.google.com/spreadsheets/d/e/2PACX-1vS3CFFG7hUU8oLryXhjneEWI1ZbqqDzd6QyppdKkkWLBARdgpVPh4vWezp1fgyiN07Iop7kKm06XEnB/pub?gid=372972500&single=true&output=csv"
+export type DatasetStatus = {
+  enabled: boolean
+  // 尚無任何資料（含快取）且正在載入
+  loading: boolean
+  error: string | null
+  // 目前畫面資料的實際抓取時間（可能來自快取）
+  lastSuccess: number | null
+  rowCount: number
+  fromCache: boolean
+  refreshing: boolean
+  // 未設定來源、改由案件明細推算
+  derived: boolean
+  retry: () => void
+}
 
-// Optional data sources for new charts (fill in if available)
-// Category trend over time: first column = date, remaining columns = categories counts
-const CATEGORY_TREND_URL: string = ""
+// 未啟用或尚未載入時的空資料集
+const EMPTY = Object.fromEntries(DATASET_KEYS.map((key) => [key, parseDataset(key, [])])) as { [K in DatasetKey]: LoadedDatasets[K] }
 
-export function useSheets() {
-  const trendQ = useQuery({ queryKey:["trend"], queryFn:() => fetchCsv(TREND_URL) })
+function loadSource<K extends DatasetKey>(key: K, binding: SourceBinding): Promise<LoadedDatasets[K]> {
+  // 下載、CSV / XLSX 解析、schema 解析與推算彙總表都在 Web Worker 中進行
+  if (binding.kind === "url") return loadDataset(key, { kind: "url", url: binding.url })
+  if (binding.kind === "file") {
+    const file = getSourceFile(key)
+    if (!file) return Promise.reject(new Error(`請重新選擇本機檔案：${binding.fileName}`))
+    return loadDataset(key, { kind: "file", file })
+  }
+  return Promise.resolve(EMPTY[key])
+}
 
-  const categoryTrendQ = useQuery({
-    queryKey: ["categoryTrend"],
-    queryFn: () => fetchCsv(CATEGORY_TREND_URL),
-    enabled: Boolean(CATEGORY_TREND_URL),
-  })
+function useSource<K extends DatasetKey>(key: K, binding: SourceBinding, ready: boolean, refreshMinutes: number) {
+  const enabled = ready && isSourceEnabled(binding)
+  const source = JSON.stringify(binding)
 
-  const modMonthQ = useQuery({
-    queryKey: ["moduleByMonth"],
-    queryFn: () => fetchCsv(MODULE_BY_MONTH_URL)
+  const cacheQ = useQuery({
+    queryKey: ["cache", key, binding],
+    queryFn: () => readCachedDataset(key, source),
+    enabled,
+    staleTime: Infinity,
   })
 
-  const avgDurationQ = useQuery({
-    queryKey: ["avgCallDuration"],
-    queryFn: () => fetchCsv(AVG_DURATION_URL)
+  const liveQ = useQuery({
+    queryKey: [key, binding],
+    queryFn: async () => {
+      const data = await loadSource(key, binding)
+      const fetchedAt = Date.now()
+      await writeCachedDataset({ key, source, data, fetchedAt })
+      return { data, fetchedAt }
+    },
+    enabled,
+    // 本機檔案內容不會變，只輪詢網址來源；看板常駐在背景分頁時也照常更新
+    refetchInterval: binding.kind === "url" && refreshMinutes > 0 ? refreshMinutes * 60_000 : false,
+    refetchIntervalInBackground: true,
   })
 
-  const callsQ = useQuery({
-    queryKey: ["calls"],
-    queryFn: () => fetchCsv(CALLS_URL)
-  })
-  
-  
+  const cached = cacheQ.data ?? null
+  const data = liveQ.data?.data ?? (cached?.data as LoadedDatasets[K] | undefined) ?? EMPTY[key]
+  const error = liveQ.error
+  const status: DatasetStatus = {
+    enabled,
+    // 有快取就先顯示，不必等待遠端回應
+    loading: enabled && !liveQ.data && !cached && (cacheQ.isLoading || liveQ.isLoading),
+    error: error ? error.message || String(error) : null,
+    lastSuccess: liveQ.data?.fetchedAt ?? cached?.fetchedAt ?? null,
+    rowCount: data.parsed.rows.length,
+    fromCache: !liveQ.data && Boolean(cached),
+    refreshing: liveQ.isFetching,
+    derived: false,
+    retry: () => { liveQ.refetch() },
+  }
+
+  return { data, status }
+}
+
+export function useSheets() {
+  const sources = useDataSources()
+  const trendQ = useSource("trend", sources.trend, sources.ready, sources.refresh.trend)
+  const categoryTrendQ = useSource("categoryTrend", sources.categoryTrend, sources.ready, sources.refresh.categoryTrend)
+  const modMonthQ = useSource("moduleByMonth", sources.moduleByMonth, sources.ready, sources.refresh.moduleByMonth)
+  const avgDurationQ = useSource("avgCallDuration", sources.avgCallDuration, sources.ready, sources.refresh.avgCallDuration)
+  const callsQ = useSource("calls", sources.calls, sources.ready, sources.refresh.calls)
+
+  const trend = trendQ.data.parsed
+  const moduleByMonth = modMonthQ.data.parsed
+  const avgCallDuration = avgDurationQ.data.parsed
+  const calls = callsQ.data.parsed
+  const categoryTrend = categoryTrendQ.data.parsed
+  const { derived } = callsQ.data
+
+  // 彙總表未設定來源時，改由案件明細推算（calls-only 模式）
+  const deriveTrendRows = !isSourceEnabled(sources.trend)
+  const deriveModuleRows = !isSourceEnabled(sources.moduleByMonth)
+  const deriveAvgRows = !isSourceEnabled(sources.avgCallDuration)
+  const trendRows = deriveTrendRows ? derived.trend : trend.rows
+  const moduleRows = deriveModuleRows ? derived.moduleByMonth : moduleByMonth.rows
+  const avgRows = deriveAvgRows ? derived.avgCallDuration : avgCallDuration.rows
+
+  // 推算的資料集沿用案件明細的載入狀態，讓卡片的載入與錯誤提示跟著明細走
+  const derivedStatus = (own: DatasetStatus, derived: boolean): DatasetStatus =>
+    derived && callsQ.status.enabled ? { ...callsQ.status, derived: true } : own
+
+  const status: Record<DatasetKey, DatasetStatus> = {
+    trend: derivedStatus(trendQ.status, deriveTrendRows),
+    moduleByMonth: derivedStatus(modMonthQ.status, deriveModuleRows),
+    avgCallDuration: derivedStatus(avgDurationQ.status, deriveAvgRows),
+    calls: callsQ.status,
+    categoryTrend: categoryTrendQ.status,
+  }
+
+  // 輪詢更新後與先前資料比對，供「自 HH:mm 起新增 N 筆」提示
+  const sourceKey = JSON.stringify(DATASET_KEYS.map((key) => sources[key]))
+  const { changes, dismiss: dismissChanges } = useDataChanges(
+    trendRows,
+    calls.rows,
+    sourceKey,
+    callsQ.status.lastSuccess ?? status.trend.lastSuccess,
+  )
+
   return {
-    trend: (trendQ.data ?? []) as any[],
-    moduleByMonth: modMonthQ.data ?? [],
-    categoryTrend: (categoryTrendQ.data ?? []) as any[],
-    avgCallDuration: avgDurationQ.data ?? [],
-    calls: callsQ.data ?? [],
-    loading: trendQ.isLoading || modMonthQ.isLoading || categoryTrendQ.isLoading || avgDurationQ.isLoading || callsQ.isLoading,    
+    trend: trendRows,
+    moduleByMonth: moduleRows,
+    // 分類趨勢表沒有推算版本；未設定時由分類面積圖改用案件明細
+    categoryTrend: categoryTrend.rows,
+    avgCallDuration: avgRows,
+    calls: calls.rows,
+    // 完整解析結果（含被剔除或標記的列），供資料品質檢查使用
+    parsed: { trend, moduleByMonth, avgCallDuration, calls, categoryTrend },
+    status,
+    changes,
+    dismissChanges,
+    // 各資料集的載入與錯誤由卡片各自處理，這裡只等待來源設定就緒
+    loading: !sources.ready,
   }
 }
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react"
+import { parseSlaRules, type SlaRule } from "./sla"
+import { createLocalStore } from "./localStore"
+
+// SLA 規則保存在 localStorage，設定面板與儀表板共用
+
+const store = createLocalStore("ivv-dashboard:sla", (json): SlaRule[] => (json ? parseSlaRules(json) : []))
+
+export function saveSlaRules(next: SlaRule[]) {
+  store.set(next)
+}
+
+export function useSlaRules() {
+  return useSyncExternalStore(store.subscribe, store.get)
+}
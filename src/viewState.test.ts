@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_DURATION, DEFAULT_DURATION_TREND, DEFAULT_MODULE_RANK, decodeViewState, encodeViewState, type ViewState } from "./viewState"
+
+const DEFAULT_STATE = decodeViewState("")
+
+const state = (patch: Partial<ViewState>): ViewState => ({ ...DEFAULT_STATE, ...patch })
+
+describe("viewState", () => {
+  it("預設畫面的網址不帶參數", () => {
+    expect(DEFAULT_STATE).toEqual({
+      range: { kind: "all" },
+      compare: null,
+      duration: DEFAULT_DURATION,
+      durationView: "histogram",
+      filters: { modules: [], categories: [], weekdays: [] },
+      anomaly: "medium",
+      forecast: 0,
+      heatmap: "average",
+      durationTrend: DEFAULT_DURATION_TREND,
+      moduleRank: DEFAULT_MODULE_RANK,
+      drawer: null,
+    })
+    expect(encodeViewState(DEFAULT_STATE)).toBe("")
+  })
+
+  it.each<[string, ViewState]>([
+    ["年", state({ range: { kind: "year", year: "2024" } })],
+    ["季", state({ range: { kind: "quarter", year: "2024", quarter: 2 } })],
+    ["月", state({ range: { kind: "month", month: "2024-05" } })],
+    ["週", state({ range: { kind: "week", start: "2024-05-13" } })],
+    ["預設區間", state({ range: { kind: "preset", preset: "last30" } })],
+    ["自訂區間", state({ range: { kind: "custom", start: "2024-05-01", end: "2024-05-10" } })],
+    ["只有起日", state({ range: { kind: "custom", start: "2024-05-01", end: "" } })],
+    ["比較前一期間", state({ range: { kind: "month", month: "2024-05" }, compare: { kind: "previous" } })],
+    ["比較去年同期", state({ range: { kind: "month", month: "2024-05" }, compare: { kind: "lastYear" } })],
+    ["比較自訂期間", state({ compare: { kind: "custom", start: "2023-01-01", end: "2023-03-31" } })],
+    [
+      "處理時間分佈",
+      state({
+        duration: { metric: "percentage", binMode: "custom", cuts: [1, 5, 15, 60], focus: { min: 0, max: 30 }, groupBy: "module", facet: true },
+        durationView: "box",
+      }),
+    ],
+    ["交叉篩選", state({ filters: { modules: ["報表", "登入"], categories: ["系統異常"], weekdays: [1, 0] } })],
+    ["異常、預測、熱度圖", state({ anomaly: "off", forecast: 30, heatmap: "total" })],
+    ["處理時間趨勢", state({ durationTrend: { metric: "p90", groupBy: "none" } })],
+    ["模組排行", state({ moduleRank: { view: "pareto", topN: 20 } })],
+    ["模組抽屜", state({ drawer: { type: "module", name: "報表 & 匯出" } })],
+    ["分佈區間抽屜", state({ drawer: { type: "duration", bucket: "3", series: "module:報表" } })],
+    ["逾時抽屜", state({ drawer: { type: "sla" } })],
+    ["單日抽屜", state({ drawer: { type: "day", date: "2024-05-06" } })],
+    ["時段抽屜", state({ drawer: { type: "hour", weekday: 1, hour: 9 } })],
+    ["單月抽屜", state({ drawer: { type: "month", month: "2024-05" } })],
+  ])("%s寫入網址後還原成相同狀態", (_, value) => {
+    const search = encodeViewState(value)
+    expect(search).not.toBe("")
+    expect(decodeViewState(search)).toEqual(value)
+  })
+
+  it.each([
+    ["?period=foo", { range: { kind: "all" } }],
+    ["?period=w2024-05-15", { range: { kind: "week", start: "2024-05-13" } }],
+    ["?topn=7&mview=pie", { moduleRank: DEFAULT_MODULE_RANK }],
+    ["?forecast=45", { forecast: 0 }],
+    ["?slot=7-09", { drawer: null }],
+    ["?group=category&groupValue=系統異常", { filters: { modules: [], categories: ["系統異常"], weekdays: [] } }],
+  ])("無法辨識或舊版的參數 %s", (search, expected) => {
+    expect(decodeViewState(search)).toMatchObject(expected)
+  })
+})
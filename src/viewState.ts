@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  normalizeCuts,
+  type CrossFilter,
+  type DurationBinMode,
+  type DurationFocus,
+  type DurationGroupBy,
+  type DurationMetric,
+  type DurationParams,
+} from "./aggregate"
+import { SENSITIVITY_LABELS, type AnomalySensitivity } from "./anomaly"
+import { FORECAST_OPTIONS } from "./forecast"
+import { TOP_N_OPTIONS } from "./moduleRanking"
+import { decodeCompare, decodeRange, encodeCompare, encodeRange, type CompareSelection, type RangeSelection } from "./dateRange"
+
+// 儀表板畫面狀態與網址查詢字串互轉：分享連結可還原同一個畫面，上一頁 / 下一頁可回到先前的篩選
+
+export type DrawerRef =
+  | { type: "module"; name: string }
+  // 處理時間分佈的某個區間（bucket 為區間索引，series 為分組鍵）
+  | { type: "duration"; bucket: string; series: string }
+  // 未達 SLA 的案件
+  | { type: "sla" }
+  // 某一天的案件（由異常日開啟）
+  | { type: "day"; date: string }
+  // 星期 × 小時熱度圖的某一格（weekday 為 0 = 週日）
+  | { type: "hour"; weekday: number; hour: number }
+  // 某個月的案件（由處理時間趨勢開啟）
+  | { type: "month"; month: string }
+
+export type HeatmapMetric = "average" | "total"
+
+// 處理時間趨勢畫每期的中位數或 P90
+export type DurationTrendMetric = "median" | "p90"
+
+export type DurationTrendParams = {
+  metric: DurationTrendMetric
+  groupBy: DurationGroupBy
+}
+
+// 模組排行卡的呈現方式：前 N 名長條圖、柏拉圖、完整排名表或模組 × 月熱度圖
+export type ModuleView = "bar" | "pareto" | "table" | "heatmap"
+
+export type ModuleRankParams = {
+  view: ModuleView
+  topN: number
+}
+
+// 處理時間卡的呈現方式：分佈直方圖、累積分佈曲線或箱形圖
+export type DurationView = "histogram" | "cdf" | "box"
+
+export type ViewState = {
+  range: RangeSelection
+  // 比較模式的基準期間；null 為不比較
+  compare: CompareSelection | null
+  duration: DurationParams
+  durationView: DurationView
+  // 點選圖表加入的交叉篩選
+  filters: CrossFilter
+  // 每日趨勢異常偵測的敏感度
+  anomaly: AnomalySensitivity
+  // 每日趨勢往後預測的天數；0 為不預測
+  forecast: number
+  // 星期 × 小時熱度圖顯示平均每日件數或合計
+  heatmap: HeatmapMetric
+  durationTrend: DurationTrendParams
+  moduleRank: ModuleRankParams
+  drawer: DrawerRef | null
+}
+
+export const DEFAULT_DURATION: DurationParams = {
+  metric: "count",
+  binMode: "auto",
+  cuts: [],
+  focus: null,
+  groupBy: "none",
+  facet: false,
+}
+
+export const DEFAULT_DURATION_TREND: DurationTrendParams = {
+  metric: "median",
+  groupBy: "category",
+}
+
+export const DEFAULT_MODULE_RANK: ModuleRankParams = {
+  view: "bar",
+  topN: 5,
+}
+
+const DEFAULT_ANOMALY: AnomalySensitivity = "medium"
+
+const METRICS: DurationMetric[] = ["count", "percentage"]
+const SENSITIVITIES = Object.keys(SENSITIVITY_LABELS) as AnomalySensitivity[]
+const BIN_MODES: DurationBinMode[] = ["auto", "fixed", "log", "custom"]
+const GROUP_BYS: DurationGroupBy[] = ["none", "category", "module"]
+const HEATMAP_METRICS: HeatmapMetric[] = ["average", "total"]
+const DURATION_VIEWS: DurationView[] = ["histogram", "cdf", "box"]
+const TREND_METRICS: DurationTrendMetric[] = ["median", "p90"]
+const MODULE_VIEWS: ModuleView[] = ["bar", "pareto", "table", "heatmap"]
+
+const oneOf = <T extends string>(list: T[], value: string | null, fallback: T) =>
+  (list as string[]).includes(value ?? "") ? (value as T) : fallback
+
+const unique = <T>(values: T[]) => Array.from(new Set(values))
+
+// cuts=1,5,10,30
+const decodeCuts = (value: string | null) => normalizeCuts((value ?? "").split(",").filter(Boolean).map(Number))
+
+// focus=0-30；上限須大於下限
+function decodeFocus(value: string | null): DurationFocus | null {
+  const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(value ?? "")
+  if (!match) return null
+  const [min, max] = [Number(match[1]), Number(match[2])]
+  return max > min ? { min, max } : null
+}
+
+export function decodeViewState(search: string): ViewState {
+  const params = new URLSearchParams(search)
+  const groupBy = oneOf(GROUP_BYS, params.get("group"), DEFAULT_DURATION.groupBy)
+  const bucket = params.get("bucket")
+  const legacyValue = params.get("groupValue") === "ALL" ? "" : params.get("groupValue") ?? ""
+  const moduleName = params.get("module")
+  let drawer: DrawerRef | null = null
+  if (moduleName) drawer = { type: "module", name: moduleName }
+  else if (bucket) drawer = { type: "duration", bucket, series: params.get("series") ?? "__all" }
+  else if (params.get("breaches") === "1") drawer = { type: "sla" }
+  else if (/^\d{4}-\d{2}-\d{2}$/.test(params.get("day") ?? "")) drawer = { type: "day", date: params.get("day")! }
+  else {
+    // slot=星期-小時，例如 1-09 為週一 09 時
+    const slot = /^([0-6])-(\d{1,2})$/.exec(params.get("slot") ?? "")
+    if (slot && Number(slot[2]) < 24) drawer = { type: "hour", weekday: Number(slot[1]), hour: Number(slot[2]) }
+    else if (/^\d{4}-\d{2}$/.test(params.get("month") ?? "")) drawer = { type: "month", month: params.get("month")! }
+  }
+  return {
+    range: decodeRange(params.get("period")),
+    compare: decodeCompare(params.get("compare")),
+    duration: {
+      metric: oneOf(METRICS, params.get("metric"), DEFAULT_DURATION.metric),
+      binMode: oneOf(BIN_MODES, params.get("bins"), DEFAULT_DURATION.binMode),
+      cuts: decodeCuts(params.get("cuts")),
+      // 舊版連結的 focus30=1 即聚焦 0-30 分
+      focus: decodeFocus(params.get("focus")) ?? (params.get("focus30") === "1" ? { min: 0, max: 30 } : null),
+      groupBy,
+      facet: groupBy !== "none" && params.get("facet") === "1",
+    },
+    durationView: oneOf(DURATION_VIEWS, params.get("dview"), "histogram"),
+    filters: {
+      // 舊版連結的 groupValue（分佈圖單選）併入對應維度的篩選
+      modules: unique([...params.getAll("fModule"), ...(groupBy === "module" ? [legacyValue] : [])].filter(Boolean)),
+      categories: unique([...params.getAll("fCategory"), ...(groupBy === "category" ? [legacyValue] : [])].filter(Boolean)),
+      weekdays: unique(params.getAll("fWeekday").filter(v => /^[0-6]$/.test(v)).map(Number)),
+    },
+    anomaly: oneOf(SENSITIVITIES, params.get("anomaly"), DEFAULT_ANOMALY),
+    forecast: FORECAST_OPTIONS.includes(Number(params.get("forecast"))) ? Number(params.get("forecast")) : 0,
+    heatmap: oneOf(HEATMAP_METRICS, params.get("heat"), "average"),
+    durationTrend: {
+      metric: oneOf(TREND_METRICS, params.get("tmetric"), DEFAULT_DURATION_TREND.metric),
+      groupBy: oneOf(GROUP_BYS, params.get("tgroup"), DEFAULT_DURATION_TREND.groupBy),
+    },
+    moduleRank: {
+      view: oneOf(MODULE_VIEWS, params.get("mview"), DEFAULT_MODULE_RANK.view),
+      topN: TOP_N_OPTIONS.includes(Number(params.get("topn"))) ? Number(params.get("topn")) : DEFAULT_MODULE_RANK.topN,
+    },
+    drawer,
+  }
+}
+
+/** 只寫入與預設值不同的欄位，預設畫面的網址保持乾淨。 */
+export function encodeViewState(state: ViewState): string {
+  const params = new URLSearchParams()
+  const { duration, drawer } = state
+  const period = encodeRange(state.range)
+  if (period) params.set("period", period)
+  const compare = encodeCompare(state.compare)
+  if (compare) params.set("compare", compare)
+  if (duration.metric !== DEFAULT_DURATION.metric) params.set("metric", duration.metric)
+  if (duration.binMode !== DEFAULT_DURATION.binMode) params.set("bins", duration.binMode)
+  if (duration.cuts.length) params.set("cuts", duration.cuts.join(","))
+  if (duration.focus) params.set("focus", `${duration.focus.min}-${duration.focus.max}`)
+  if (duration.groupBy !== "none") params.set("group", duration.groupBy)
+  if (duration.facet) params.set("facet", "1")
+  if (state.durationView !== "histogram") params.set("dview", state.durationView)
+  // 交叉篩選可複選，以重複的參數表示
+  const { filters } = state
+  filters.modules.forEach(value => params.append("fModule", value))
+  filters.categories.forEach(value => params.append("fCategory", value))
+  filters.weekdays.forEach(value => params.append("fWeekday", String(value)))
+  if (drawer?.type === "module") params.set("module", drawer.name)
+  if (state.anomaly !== DEFAULT_ANOMALY) params.set("anomaly", state.anomaly)
+  if (state.forecast) params.set("forecast", String(state.forecast))
+  if (drawer?.type === "sla") params.set("breaches", "1")
+  if (drawer?.type === "day") params.set("day", drawer.date)
+  if (state.heatmap !== "average") params.set("heat", state.heatmap)
+  if (drawer?.type === "hour") params.set("slot", `${drawer.weekday}-${String(drawer.hour).padStart(2, "0")}`)
+  if (state.durationTrend.metric !== DEFAULT_DURATION_TREND.metric) params.set("tmetric", state.durationTrend.metric)
+  if (state.durationTrend.groupBy !== DEFAULT_DURATION_TREND.groupBy) params.set("tgroup", state.durationTrend.groupBy)
+  if (drawer?.type === "month") params.set("month", drawer.month)
+  if (state.moduleRank.view !== DEFAULT_MODULE_RANK.view) params.set("mview", state.moduleRank.view)
+  if (state.moduleRank.topN !== DEFAULT_MODULE_RANK.topN) params.set("topn", String(state.moduleRank.topN))
+  if (drawer?.type === "duration") {
+    params.set("bucket", drawer.bucket)
+    params.set("series", drawer.series)
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ""
+}
+
+type Update = ViewState | ((prev: ViewState) => ViewState)
+
+/**
+ * 以網址為準的畫面狀態。一般變更新增一筆瀏覽紀錄（可用上一頁返回），
+ * replace 用於程式自動修正（例如選項不存在時重設），不產生紀錄。
+ */
+export function useViewState() {
+  const [state, setState] = useState<ViewState>(() => decodeViewState(window.location.search))
+  const current = useRef(state)
+
+  useEffect(() => {
+    const onPopState = () => {
+      current.current = decodeViewState(window.location.search)
+      setState(current.current)
+    }
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [])
+
+  const update = useCallback((next: Update, options: { replace?: boolean } = {}) => {
+    const value = typeof next === "function" ? next(current.current) : next
+    current.current = value
+    setState(value)
+    const search = encodeViewState(value)
+    if (search === window.location.search) return
+    const url = `${window.location.pathname}${search}${window.location.hash}`
+    if (options.replace) window.history.replaceState(null, "", url)
+    else window.history.pushState(null, "", url)
+  }, [])
+
+  return [state, update] as const
+}
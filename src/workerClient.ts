@@ -0,0 +1,115 @@
+import { fetchCsv, readDataFile } from "./data"
+import { computeCallsView, type CallFacts, type CallsView, type CallsViewParams } from "./aggregate"
+import { parseDataset, type LoadedDataset, type LoadedDatasets } from "./datasets"
+import type { DatasetKey } from "./sources"
+import type { LoadRequest, WorkerRequest, WorkerResponse } from "./workerProtocol"
+
+// 封裝 aggregate.worker：以 Promise 呈現請求結果；瀏覽器不支援 Worker 時改在主執行緒計算
+
+export class CancelledError extends Error {
+  constructor() {
+    super("cancelled")
+    this.name = "CancelledError"
+  }
+}
+
+// calls 為載入案件明細時指定的版本號
+type Pending = { resolve: (value: never) => void; reject: (error: Error) => void; calls?: number }
+
+let worker: Worker | null = null
+let nextId = 1
+const pending = new Map<number, Pending>()
+const callsVersions = new WeakMap<CallFacts[], number>()
+// 由 worker 解析的明細：worker 已保留一份，不必再傳送
+const workerParsed = new WeakSet<CallFacts[]>()
+let nextVersion = 1
+let currentCalls: CallFacts[] | null = null
+let workerBroken = false
+
+function getWorker(): Worker | null {
+  if (worker) return worker
+  if (typeof Worker === "undefined") return null
+  try {
+    worker = new Worker(new URL("./aggregate.worker.ts", import.meta.url), { type: "module" })
+  } catch {
+    return null
+  }
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data
+    const task = pending.get(message.id)
+    if (!task) return
+    pending.delete(message.id)
+    if (message.type === "loaded") {
+      if (task.calls != null) {
+        const rows = (message.data as LoadedDatasets["calls"]).parsed.rows
+        callsVersions.set(rows, task.calls)
+        workerParsed.add(rows)
+      }
+      task.resolve(message.data as never)
+    }
+    else if (message.type === "callsView") task.resolve(message.view as never)
+    else if (message.type === "cancelled") task.reject(new CancelledError())
+    else task.reject(new Error(message.message))
+  }
+  worker.onerror = (event) => {
+    // worker 本身載入失敗：回絕所有請求，之後改走主執行緒
+    const error = new Error(event.message || "Worker 執行失敗")
+    pending.forEach((task) => task.reject(error))
+    pending.clear()
+    worker?.terminate()
+    worker = null
+    workerBroken = true
+  }
+  return worker
+}
+
+function post<T>(build: (id: number) => WorkerRequest, calls?: number): { id: number; promise: Promise<T> } {
+  const id = nextId++
+  const promise = new Promise<T>((resolve, reject) => {
+    pending.set(id, { resolve: resolve as (value: never) => void, reject, calls })
+  })
+  worker!.postMessage(build(id))
+  return { id, promise }
+}
+
+/** 在 worker 中下載 CSV / XLSX 並依資料集的 schema 解析。 */
+export function loadDataset<K extends DatasetKey>(dataset: K, source: LoadRequest): Promise<LoadedDatasets[K]> {
+  const w = workerBroken ? null : getWorker()
+  if (!w) {
+    const task = source.kind === "url" ? fetchCsv(source.url) : readDataFile(source.file)
+    return task.then((rows) => parseDataset(dataset, rows))
+  }
+  const version = dataset === "calls" ? nextVersion++ : undefined
+  return post<LoadedDataset>((id) => ({ type: "load", id, dataset, source, version }), version).promise as Promise<LoadedDatasets[K]>
+}
+
+export type ViewTask = { promise: Promise<CallsView>; cancel: () => void }
+
+/**
+ * 請求案件明細的彙總結果。新請求會取代尚未執行的舊請求，
+ * 被取代或取消的請求以 CancelledError 回絕。
+ */
+export function requestCallsView(calls: CallFacts[], params: CallsViewParams): ViewTask {
+  const w = workerBroken ? null : getWorker()
+  if (!w) {
+    return { promise: Promise.resolve().then(() => computeCallsView(calls, params)), cancel: () => {} }
+  }
+  if (currentCalls !== calls) {
+    let version = callsVersions.get(calls)
+    if (version == null) {
+      version = nextVersion++
+      callsVersions.set(calls, version)
+    }
+    // 只有不是由 worker 解析的明細（例如快取）才需要傳送
+    if (!workerParsed.has(calls)) w.postMessage({ type: "setCalls", version, calls } satisfies WorkerRequest)
+    currentCalls = calls
+  }
+  const version = callsVersions.get(calls)!
+  const { id, promise } = post<CallsView>((requestId) => ({ type: "callsView", id: requestId, version, params }))
+  return {
+    promise,
+    cancel: () => {
+      if (pending.has(id)) w.postMessage({ type: "cancel", id } satisfies WorkerRequest)
+    },
+  }
+}
@@ -0,0 +1,22 @@
+import type { CallFacts, CallsView, CallsViewParams } from "./aggregate"
+import type { LoadedDataset } from "./datasets"
+import type { DatasetKey } from "./sources"
+
+// 主執行緒與 aggregate.worker 之間的訊息格式
+
+export type LoadRequest = { kind: "url"; url: string } | { kind: "file"; file: File }
+
+export type WorkerRequest =
+  // 下載並解析資料集；案件明細解析後直接留在 worker，之後的彙總請求以 version 引用
+  | { type: "load"; id: number; dataset: DatasetKey; source: LoadRequest; version?: number }
+  // 明細資料（例如來自快取）只在變動時傳送一次，之後的彙總請求以版本號引用
+  | { type: "setCalls"; version: number; calls: CallFacts[] }
+  // 只保留最新一筆尚未執行的請求，較舊的直接回覆 cancelled
+  | { type: "callsView"; id: number; version: number; params: CallsViewParams }
+  | { type: "cancel"; id: number }
+
+export type WorkerResponse =
+  | { type: "loaded"; id: number; data: LoadedDataset }
+  | { type: "callsView"; id: number; view: CallsView }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string }
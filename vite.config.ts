@@ -5,6 +5,10 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   base: '/ivv-dashboard/',
+  // worker 內會動態載入 xlsx，需要 ES module 格式才能拆分 chunk
+  worker: {
+    format: 'es',
+  },
   server: {
     port: 5175,
     strictPort: true,